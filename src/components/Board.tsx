@@ -1,6 +1,6 @@
 "use client"
 
-import { useCallback, useEffect, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import ReactFlow, {
   type Node,
   type Edge,
@@ -12,11 +12,15 @@ import ReactFlow, {
   useNodesState,
   useEdgesState,
   ReactFlowProvider,
+  useReactFlow,
+  useStoreApi,
+  getNodesBounds,
+  type OnConnectStartParams,
 } from "reactflow"
 import "reactflow/dist/style.css"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
-import { Trash2, Menu, X, Workflow, User, Globe, Cog, Database, Settings, Shield } from "lucide-react"
+import { Trash2, Menu, X, Workflow, User, Globe, Cog, Database, Settings, Shield, CheckCircle, Clock, AlertCircle, Save, FileCode, FileInput, FlaskConical, Server, SlidersHorizontal, ShieldCheck, ArrowRightLeft, Share2 } from "lucide-react"
 import { ApiNode } from "./nodes/ApiNode"
 import { ControllerNode } from './nodes/ControllerNode'
 import { BusinessFlowNode } from "./nodes/BusinessFlowNode"
@@ -24,6 +28,28 @@ import { CustomerActionNode } from "./nodes/CustomerActionNode"
 import { GatewayNode } from "./nodes/GatewayNode"
 import { RepositoryNode } from "./nodes/RepositoryNode"
 import { ServiceNode } from "./nodes/ServiceNode"
+import {
+  autoSaveBoardData,
+  flushBoardAutoSave,
+  loadBoardData,
+  loadConnectionRules,
+  saveConnectionRules,
+  BoardStorageError,
+  type BoardData,
+} from "@/lib/boardStorage"
+import { generateOpenApiDocument, serializeOpenApiDocument } from "@/lib/openApiExport"
+import { checkBoardConnection, DEFAULT_CONNECTION_RULES, type ConnectionRuleSet } from "@/lib/boardConnectionRules"
+import { BoardImportError, createDefaultPayload, validateBoardImport, type BoardNodeType } from "@/lib/boardNodeModels"
+import { lintBoard, type BoardLintIssue } from "@/lib/boardLint"
+import { collectMockRoutes, renderMockServer } from "@/lib/mockServerExport"
+import { buildSequenceDiagram, renderSequenceDiagram } from "@/lib/sequenceDiagramExport"
+import { generatePlaywrightSpecs } from "@/lib/playwrightExport"
+import { getOperationKey, OpenApiImportError, parseOpenApiOperations } from "@/lib/openApiImport"
+import { convertBoardToMermaid, validateBoardForMermaid } from "@/lib/boardMermaidConverter"
+import { CodeExportDialog, type CodeExportFormat } from "./board/CodeExportDialog"
+import { MermaidExporter } from "./flowchart/MermaidExporter"
+import { ConnectionRulesDialog } from "./board/ConnectionRulesDialog"
+import { ArchitectureLintPanel } from "./board/ArchitectureLintPanel"
 
 // Suppress ResizeObserver error
 const suppressResizeObserverError = () => {
@@ -41,7 +67,7 @@ const suppressResizeObserverError = () => {
 }
 
 // Node creation tools
-const NODE_TOOLS = [
+const NODE_TOOLS: { type: BoardNodeType; icon: typeof Workflow; label: string; color: string }[] = [
   { type: "businessFlow", icon: Workflow, label: "Business Flow", color: "bg-blue-100 text-blue-700" },
   { type: "customerAction", icon: User, label: "Customer Action", color: "bg-green-100 text-green-700" },
   { type: "api", icon: Globe, label: "API", color: "bg-purple-100 text-purple-700" },
@@ -51,6 +77,15 @@ const NODE_TOOLS = [
   { type: "gateway", icon: Shield, label: "Gateway", color: "bg-indigo-100 text-indigo-700" },
 ]
 
+const NODE_LABELS = Object.fromEntries(NODE_TOOLS.map((tool) => [tool.type, tool.label]))
+const HANDLE_IDS = ["another-type", "same-type"]
+const BOARD_MERMAID_METADATA = { title: "Interactive Board" }
+
+type BoardGenerator = 'openapi' | 'playwright' | 'mockServer' | 'sequence'
+
+// Grid used for API nodes created from an OpenAPI document
+const IMPORT_GRID = { columns: 4, columnWidth: 380, rowHeight: 650, gap: 150 }
+
 
 const nodeTypes = {
   businessFlow: BusinessFlowNode,
@@ -84,6 +119,36 @@ function BoardContent() {
   const [nodes, setNodes, onNodesChange] = useNodesState([])
   const [edges, setEdges, onEdgesChange] = useEdgesState([])
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
+  const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'error' | 'unsaved'>('saved')
+  const [saveError, setSaveError] = useState<string | null>(null)
+  // Auto-save stays off until the stored board has been loaded, so an empty
+  // initial canvas never overwrites it. After a failed load it stays off until
+  // the user chooses to save over the stored board.
+  const [hasLoaded, setHasLoaded] = useState(false)
+  const [loadFailed, setLoadFailed] = useState(false)
+  const savedBoard = useRef<Pick<BoardData, 'id' | 'createdAt'> | undefined>(undefined)
+  const { getViewport, setViewport, getNode, setCenter, getZoom } = useReactFlow()
+  const store = useStoreApi()
+  const [activeGenerator, setActiveGenerator] = useState<BoardGenerator | null>(null)
+  // Business flow whose call chain the sequence diagram shows
+  const [sequenceFlowId, setSequenceFlowId] = useState<string | null>(null)
+  const [showMermaidExporter, setShowMermaidExporter] = useState(false)
+  const [importResult, setImportResult] = useState<{ type: 'success' | 'error'; message: string; warnings: string[] } | null>(null)
+
+  const [connectionRules, setConnectionRules] = useState<ConnectionRuleSet>(DEFAULT_CONNECTION_RULES)
+  const [showConnectionRules, setShowConnectionRules] = useState(false)
+  const [pendingConnection, setPendingConnection] = useState<OnConnectStartParams | null>(null)
+  const [connectionToast, setConnectionToast] = useState<string | null>(null)
+  const [lintResult, setLintResult] = useState<{ issues: BoardLintIssue[]; checkedAt: Date } | null>(null)
+  const toastTimeout = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const showConnectionToast = useCallback((message: string) => {
+    if (toastTimeout.current) {
+      clearTimeout(toastTimeout.current)
+    }
+    setConnectionToast(message)
+    toastTimeout.current = setTimeout(() => setConnectionToast(null), 4000)
+  }, [])
 
   const handleNodeUpdate = useCallback(
     (id: string, updates: object) => {
@@ -94,102 +159,105 @@ function BoardContent() {
     [setNodes],
   )
 
-  const onConnect = useCallback(
-    (connection: Edge | Connection) => {
-      const sourceNode = nodes.find((node) => node.id === connection.source)
-      const targetNode = nodes.find((node) => node.id === connection.target)
-
-      if (!sourceNode || !targetNode) return
-
-      const sourceType = sourceNode.type as string;
-      const targetType = targetNode.type as string;
+  const checkConnection = useCallback(
+    (connection: Edge | Connection) =>
+      checkBoardConnection(
+        connectionRules,
+        connection.source ? getNode(connection.source)?.type : undefined,
+        connection.target ? getNode(connection.target)?.type : undefined,
+        connection.sourceHandle,
+        connection.targetHandle,
+      ),
+    [connectionRules, getNode],
+  )
 
-      const connectionRules: Record<string, string[]> = {
-        businessFlow: ["customerAction"],
-        customerAction: ["api"],
-        api: ["controller"],
-        controller: ["service", "repository", "gateway"],
-        service: ["repository", "gateway"],
-      }
+  const isValidConnection = useCallback((connection: Connection) => checkConnection(connection).valid, [checkConnection])
 
-      if (connection.sourceHandle === connection.targetHandle && connectionRules[sourceType] && connectionRules[sourceType].includes(targetType)) {
-        setEdges((eds) => addEdge(connection, eds))
-      } else if (sourceType === targetType) {
+  const onConnect = useCallback(
+    (connection: Edge | Connection) => {
+      const result = checkConnection(connection)
+      if (result.valid) {
         setEdges((eds) => addEdge(connection, eds))
+      } else {
+        showConnectionToast(result.reason)
       }
     },
-    [nodes, setEdges],
+    [checkConnection, setEdges, showConnectionToast],
   )
 
-  const createNode = useCallback(
-    (type: string) => {
-      const basePayload = {
-        label: NODE_TOOLS.find((tool) => tool.type === type)?.label || type,
-      }
+  const onConnectStart = useCallback((_: React.MouseEvent | React.TouchEvent, params: OnConnectStartParams) => {
+    setPendingConnection(params)
+  }, [])
 
-      let specificPayload = {}
-      switch (type) {
-        case "api":
-          specificPayload = {
-            url: "/api/v1/",
-            method: "GET",
-            requestHeaders: [{ key: "Content-Type", value: "application/json" }],
-            requestBody: JSON.stringify({ data: "example" }, null, 2),
-            responseStatus: "200",
-            responseHeaders: [{ key: "Content-Type", value: "application/json" }],
-            responseBody: JSON.stringify({ message: "Success" }, null, 2),
-          }
-          break
-        case "service":
-          specificPayload = {
-            serviceName: "NewService",
-            description: "This service handles business logic.",
-            dependencies: [],
-          }
-          break
-        case "repository":
-          specificPayload = {
-            database: "PostgreSQL",
-            schema: "schema",
-            action: "select",
-            query: "SELECT * FROM users;",
-          }
-          break
-        case "businessFlow":
-          specificPayload = {
-            description: "This flow outlines a core business process.",
-          }
-          break
-        case "customerAction":
-          specificPayload = {
-            actionType: "navigate",
-            url: "https://example.com",
-          }
-          break
-        case "gateway":
-          specificPayload = {
-            url: "/api/v1/",
-            method: "GET",
-            requestHeaders: [{ key: "Content-Type", value: "application/json" }],
-            requestBody: JSON.stringify({ data: "example" }, null, 2),
-            responseStatus: "200",
-            responseHeaders: [{ key: "Content-Type", value: "application/json" }],
-            responseBody: JSON.stringify({ message: "Success" }, null, 2),
-          
-          }
-          break
-        // Add other cases as needed
+  // ReactFlow drops rejected connections without calling onConnect, so explain
+  // why when the drag ended on a handle that isValidConnection refused
+  const onConnectEnd = useCallback(() => {
+    setPendingConnection(null)
+    const { connectionStatus, connectionStartHandle, connectionEndHandle } = store.getState()
+    if (connectionStatus !== "invalid" || !connectionStartHandle || !connectionEndHandle) return
+
+    const [from, to] =
+      connectionStartHandle.type === "source"
+        ? [connectionStartHandle, connectionEndHandle]
+        : [connectionEndHandle, connectionStartHandle]
+    const result = checkConnection({
+      source: from.nodeId,
+      sourceHandle: from.handleId ?? null,
+      target: to.nodeId,
+      targetHandle: to.handleId ?? null,
+    })
+    if (!result.valid) {
+      showConnectionToast(result.reason)
+    }
+  }, [store, checkConnection, showConnectionToast])
+
+  // Highlight every handle the dragged connection could be dropped on
+  const validHandleStyles = useMemo(() => {
+    if (!pendingConnection?.nodeId || !pendingConnection.handleType) return ""
+    const { nodeId, handleId, handleType } = pendingConnection
+    const endType = handleType === "source" ? "target" : "source"
+
+    const selectors = nodes
+      .filter((node) => node.id !== nodeId)
+      .flatMap((node) =>
+        HANDLE_IDS.filter((endHandleId) =>
+          checkConnection(
+            handleType === "source"
+              ? { source: nodeId, sourceHandle: handleId, target: node.id, targetHandle: endHandleId }
+              : { source: node.id, sourceHandle: endHandleId, target: nodeId, targetHandle: handleId },
+          ).valid,
+        ).map((endHandleId) => `.react-flow__handle[data-id="${node.id}-${endHandleId}-${endType}"]`),
+      )
+    return selectors.length > 0
+      ? `${selectors.join(",\n")} { background: #16a34a; box-shadow: 0 0 0 4px rgba(22, 163, 74, 0.3); }`
+      : ""
+  }, [pendingConnection, nodes, checkConnection])
+
+  const handleSaveConnectionRules = useCallback(
+    async (rules: ConnectionRuleSet) => {
+      setConnectionRules(rules)
+      try {
+        await saveConnectionRules(rules)
+      } catch (error) {
+        console.error("Failed to save connection rules:", error)
+        showConnectionToast(error instanceof BoardStorageError ? error.message : "Failed to save connection rules")
       }
+    },
+    [showConnectionToast],
+  )
 
+  const createNode = useCallback(
+    (type: BoardNodeType) => {
+      const label = NODE_LABELS[type] || type
       const newNode: Node = {
         id: `${type}-${Date.now()}`,
         type,
         position: { x: Math.random() * 400 + 100, y: Math.random() * 400 + 100 },
         data: {
           nodeType: type,
-          label: NODE_TOOLS.find((tool) => tool.type === type)?.label || type,
+          label,
           onUpdate: handleNodeUpdate,
-          payload: { ...basePayload, ...specificPayload },
+          payload: createDefaultPayload(type, label),
         },
       }
       setNodes((nodes) => [...nodes, newNode])
@@ -238,22 +306,278 @@ function BoardContent() {
       reader.onload = (e) => {
         const contents = e.target?.result as string
         try {
-          const { nodes: importedNodes, edges } = JSON.parse(contents)
-          const nodesWithUpdater = importedNodes.map((n: Node) => ({
-            ...n,
-            data: { ...n.data, onUpdate: handleNodeUpdate },
-          }))
-          setNodes(nodesWithUpdater)
+          let data: unknown
+          try {
+            data = JSON.parse(contents)
+          } catch (error) {
+            throw new BoardImportError("The file is not valid JSON", error as Error)
+          }
+
+          const { nodes: importedNodes, edges, issues } = validateBoardImport(data)
+          setNodes(importedNodes.map((n) => ({ ...n, data: { ...n.data, onUpdate: handleNodeUpdate } })))
           setEdges(edges)
+          setImportResult({
+            type: 'success',
+            message:
+              issues.length > 0
+                ? `Imported ${importedNodes.length} nodes with ${issues.length} problem${issues.length !== 1 ? 's' : ''} fixed`
+                : `Imported ${importedNodes.length} nodes`,
+            warnings: issues.map((issue) => issue.message),
+          })
         } catch (error) {
-          console.error("Error parsing imported file:", error)
-          // Handle error appropriately, e.g., show a notification
+          console.error("Error importing board file:", error)
+          setImportResult({
+            type: 'error',
+            message: error instanceof BoardImportError ? error.message : "Failed to import board file",
+            warnings: [],
+          })
         }
       }
       reader.readAsText(file)
     }
+    // Allow importing the same file again after editing it
+    event.target.value = ""
+  }
+
+  // Create one API node per OpenAPI operation; operations already on the board
+  // (same method and path) update the existing node instead
+  const handleOpenApiImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target
+    const file = input.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      try {
+        const { operations, warnings } = parseOpenApiOperations(e.target?.result as string)
+
+        const existingApiNodes = new Map(
+          nodes
+            .filter((node) => node.type === "api")
+            .map((node) => [getOperationKey(String(node.data?.payload?.method || "GET"), String(node.data?.payload?.url || "")), node.id]),
+        )
+        const updates = new Map<string, (typeof operations)[number]>()
+        const created: Node[] = []
+        const startY = nodes.length > 0 ? Math.max(...nodes.map((node) => node.position.y)) + IMPORT_GRID.rowHeight + IMPORT_GRID.gap : 100
+
+        operations.forEach((operation) => {
+          const key = getOperationKey(operation.method, operation.url)
+          const existingId = existingApiNodes.get(key)
+          if (existingId) {
+            updates.set(existingId, operation)
+            return
+          }
+
+          const index = created.length
+          const id = `api-${Date.now()}-${index}`
+          existingApiNodes.set(key, id)
+          created.push({
+            id,
+            type: "api",
+            position: {
+              x: 100 + (index % IMPORT_GRID.columns) * IMPORT_GRID.columnWidth,
+              y: startY + Math.floor(index / IMPORT_GRID.columns) * IMPORT_GRID.rowHeight,
+            },
+            data: {
+              nodeType: "api",
+              label: operation.label,
+              onUpdate: handleNodeUpdate,
+              payload: { ...operation },
+            },
+          })
+        })
+
+        setNodes((nds) => [
+          ...nds.map((node) => {
+            const operation = updates.get(node.id)
+            return operation
+              ? { ...node, data: { ...node.data, label: operation.label, payload: { ...node.data.payload, ...operation } } }
+              : node
+          }),
+          ...created,
+        ])
+        setImportResult({
+          type: 'success',
+          message: `Imported ${operations.length} operations (${created.length} new, ${updates.size} updated)`,
+          warnings,
+        })
+      } catch (error) {
+        console.error("Error importing OpenAPI document:", error)
+        setImportResult({
+          type: 'error',
+          message: error instanceof OpenApiImportError ? error.message : "Failed to import OpenAPI document",
+          warnings: [],
+        })
+      }
+    }
+    reader.readAsText(file)
+    // Allow importing the same file again after editing it
+    input.value = ""
   }
 
+  // Only generated while the dialog is open
+  const generatorExport = useMemo((): { title: string; icon: typeof FileCode; description: string; formats: CodeExportFormat[]; warnings: string[] } | null => {
+    switch (activeGenerator) {
+      case 'openapi': {
+        const { document, warnings } = generateOpenApiDocument(nodes, edges)
+        return {
+          title: "Export OpenAPI",
+          icon: FileCode,
+          description: "OpenAPI 3.1 document built from the board's API and Gateway nodes",
+          warnings,
+          formats: [
+            { id: "yaml", label: "YAML", fileName: "openapi.yaml", mimeType: "application/yaml", content: serializeOpenApiDocument(document, "yaml") },
+            { id: "json", label: "JSON", fileName: "openapi.json", mimeType: "application/json", content: serializeOpenApiDocument(document, "json") },
+          ],
+        }
+      }
+      case 'playwright': {
+        const { files, warnings } = generatePlaywrightSpecs(nodes, edges)
+        return {
+          title: "Export Playwright Tests",
+          icon: FlaskConical,
+          description: "One spec file per Business Flow, following its Customer Action chains",
+          warnings,
+          formats: files.map((file) => ({
+            id: file.flowId,
+            label: file.flowLabel,
+            fileName: file.fileName,
+            mimeType: "text/typescript",
+            content: file.content,
+          })),
+        }
+      }
+      case 'mockServer': {
+        const { routes, warnings } = collectMockRoutes(nodes)
+        return {
+          title: "Export Mock Server",
+          icon: Server,
+          description: "Serves each API node's response; request bodies that differ from the example shape get a 400 with a diff",
+          warnings,
+          formats: [
+            { id: "node", label: "Node Server", fileName: "mock-server.mjs", mimeType: "text/javascript", content: renderMockServer(routes, "node") },
+            { id: "msw", label: "MSW Handlers", fileName: "mock-handlers.js", mimeType: "text/javascript", content: renderMockServer(routes, "msw") },
+          ],
+        }
+      }
+      case 'sequence': {
+        const { diagram, warnings } = buildSequenceDiagram(sequenceFlowId || "", nodes, edges)
+        const baseName = diagram.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "sequence"
+        return {
+          title: "Export Sequence Diagram",
+          icon: ArrowRightLeft,
+          description: `Calls made by "${diagram.title}", from its customer actions down to repositories and gateways`,
+          warnings,
+          formats: [
+            { id: "mermaid", label: "Mermaid", fileName: `${baseName}.mmd`, content: renderSequenceDiagram(diagram, "mermaid") },
+            { id: "plantuml", label: "PlantUML", fileName: `${baseName}.puml`, content: renderSequenceDiagram(diagram, "plantuml") },
+          ],
+        }
+      }
+      default:
+        return null
+    }
+  }, [activeGenerator, sequenceFlowId, nodes, edges])
+
+  const selectedFlowNode = nodes.find((node) => node.selected && node.type === "businessFlow")
+
+  // The audit runs on demand, so results are a snapshot until re-run
+  const runArchitectureLint = useCallback(() => {
+    setLintResult({ issues: lintBoard(nodes, edges), checkedAt: new Date() })
+  }, [nodes, edges])
+
+  const focusLintIssue = useCallback(
+    (issue: BoardLintIssue) => {
+      const issueNodeIds = new Set(issue.nodeIds)
+      const issueNodes = nodes.filter((node) => issueNodeIds.has(node.id))
+      if (issueNodes.length === 0) return
+
+      setNodes((nds) => nds.map((node) => ({ ...node, selected: issueNodeIds.has(node.id) })))
+      setEdges((eds) => eds.map((edge) => ({ ...edge, selected: false })))
+
+      const bounds = getNodesBounds(issueNodes)
+      setCenter(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2, { zoom: getZoom(), duration: 500 })
+    },
+    [nodes, setNodes, setEdges, setCenter, getZoom],
+  )
+
+  // Load the team's connection rules on mount
+  useEffect(() => {
+    loadConnectionRules()
+      .then((rules) => rules && setConnectionRules(rules))
+      .catch((error) => console.error("Failed to load connection rules:", error))
+  }, [])
+
+  // Load the saved board on mount
+  useEffect(() => {
+    const loadExistingBoard = async () => {
+      try {
+        const boardData = await loadBoardData()
+        if (boardData) {
+          savedBoard.current = { id: boardData.id, createdAt: boardData.createdAt }
+          // Saved boards get the same repairs as imports, e.g. fields older versions stored elsewhere
+          const { nodes: savedNodes, edges: savedEdges, issues } = validateBoardImport(boardData)
+          if (issues.length > 0) {
+            console.warn("Repaired saved board:", issues.map((issue) => issue.message))
+          }
+          setNodes(savedNodes.map((n) => ({ ...n, data: { ...n.data, onUpdate: handleNodeUpdate } })))
+          setEdges(savedEdges)
+          if (boardData.viewport) {
+            setViewport(boardData.viewport)
+          }
+        }
+        setSaveStatus('saved')
+        setHasLoaded(true)
+      } catch (error) {
+        console.error("Failed to load board data:", error)
+        setSaveError(error instanceof BoardStorageError ? error.message : "Failed to load board")
+        setSaveStatus('error')
+        setLoadFailed(true)
+      }
+    }
+
+    loadExistingBoard()
+  }, [setNodes, setEdges, setViewport, handleNodeUpdate])
+
+  const performAutoSave = useCallback(async () => {
+    try {
+      setSaveStatus('saving')
+      setSaveError(null)
+
+      const boardData = await autoSaveBoardData(nodes, edges, savedBoard.current, getViewport())
+      savedBoard.current = { id: boardData.id, createdAt: boardData.createdAt }
+      setSaveStatus('saved')
+    } catch (error) {
+      console.error("Board auto-save failed:", error)
+      setSaveStatus('error')
+      setSaveError(error instanceof BoardStorageError ? error.message : "Failed to save board")
+    }
+  }, [nodes, edges, getViewport])
+
+  // Auto-save when board data changes
+  useEffect(() => {
+    if (hasLoaded) {
+      setSaveStatus('unsaved')
+      performAutoSave()
+    }
+  }, [hasLoaded, nodes, edges, performAutoSave])
+
+  // Write pending changes before the tab is hidden or closed
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        flushBoardAutoSave()
+      }
+    }
+
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    window.addEventListener("pagehide", flushBoardAutoSave)
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+      window.removeEventListener("pagehide", flushBoardAutoSave)
+    }
+  }, [])
+
   useEffect(() => {
     document.addEventListener("keydown", onKeyDown as unknown as EventListener)
     return () => {
@@ -290,6 +614,143 @@ function BoardContent() {
                       <input type="file" id="import-file" accept=".json" onChange={handleImport} className="hidden" />
                     </label>
                   </Button>
+                  <Button variant="outline" size="sm" asChild className="col-span-2">
+                    <label htmlFor="import-openapi-file" className="cursor-pointer">
+                      <FileInput className="w-4 h-4 mr-2" />
+                      Import OpenAPI
+                      <input
+                        type="file"
+                        id="import-openapi-file"
+                        accept=".json,.yaml,.yml"
+                        onChange={handleOpenApiImport}
+                        className="hidden"
+                      />
+                    </label>
+                  </Button>
+                </div>
+                {importResult && (
+                  <div className={`mt-3 text-xs ${importResult.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+                    <div className="flex items-start justify-between gap-2">
+                      <span>{importResult.message}</span>
+                      <button
+                        type="button"
+                        onClick={() => setImportResult(null)}
+                        className="text-gray-400 hover:text-gray-600"
+                        aria-label="Dismiss import result"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                    {importResult.warnings.length > 0 && (
+                      <ul className="mt-1 text-yellow-600 space-y-1 max-h-24 overflow-y-auto">
+                        {importResult.warnings.map((warning, index) => (
+                          <li key={index}>• {warning}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+                <div className="flex items-center gap-2 mt-3" role="status" aria-live="polite">
+                  {saveStatus === 'saved' && <CheckCircle className="w-4 h-4 text-green-600" />}
+                  {saveStatus === 'saving' && <Clock className="w-4 h-4 text-blue-600 animate-spin" />}
+                  {saveStatus === 'error' && <AlertCircle className="w-4 h-4 text-red-600" />}
+                  {saveStatus === 'unsaved' && <Save className="w-4 h-4 text-orange-600" />}
+                  <span
+                    className={`text-xs ${
+                      saveStatus === 'saved'
+                        ? 'text-green-600'
+                        : saveStatus === 'saving'
+                          ? 'text-blue-600'
+                          : saveStatus === 'error'
+                            ? 'text-red-600'
+                            : 'text-orange-600'
+                    }`}
+                  >
+                    {saveStatus === 'saved' && 'All changes saved'}
+                    {saveStatus === 'saving' && 'Saving changes...'}
+                    {saveStatus === 'error' && (saveError || 'Save failed')}
+                    {saveStatus === 'unsaved' && 'Unsaved changes'}
+                  </span>
+                </div>
+                {loadFailed && !hasLoaded && (
+                  <div className="mt-2 space-y-2">
+                    <p className="text-xs text-gray-600">
+                      Auto-save is paused so the stored board is not overwritten. Saving replaces it with the board on the canvas.
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => {
+                        setLoadFailed(false)
+                        setHasLoaded(true)
+                      }}
+                    >
+                      <Save className="w-4 h-4 mr-2" />
+                      Save and resume auto-save
+                    </Button>
+                  </div>
+                )}
+              </Card>
+
+              {/* Generators */}
+              <Card className="p-4 mb-4">
+                <h3 className="font-medium mb-3">Generate</h3>
+                <div className="grid grid-cols-1 gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setActiveGenerator('openapi')}
+                    disabled={!nodes.some((node) => node.type === "api" || node.type === "gateway")}
+                    className="justify-start"
+                  >
+                    <FileCode className="w-4 h-4 mr-2" />
+                    Export OpenAPI
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowMermaidExporter(true)}
+                    disabled={nodes.length === 0}
+                    className="justify-start"
+                  >
+                    <Share2 className="w-4 h-4 mr-2" />
+                    Export Mermaid
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setActiveGenerator('playwright')}
+                    disabled={!nodes.some((node) => node.type === "businessFlow")}
+                    className="justify-start"
+                  >
+                    <FlaskConical className="w-4 h-4 mr-2" />
+                    Export Playwright Tests
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setActiveGenerator('mockServer')}
+                    disabled={!nodes.some((node) => node.type === "api")}
+                    className="justify-start"
+                  >
+                    <Server className="w-4 h-4 mr-2" />
+                    Export Mock Server
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setSequenceFlowId(selectedFlowNode?.id || null)
+                      setActiveGenerator('sequence')
+                    }}
+                    disabled={!selectedFlowNode}
+                    title={selectedFlowNode ? undefined : "Select a Business Flow node first"}
+                    className="justify-start"
+                  >
+                    <ArrowRightLeft className="w-4 h-4 mr-2" />
+                    Export Sequence Diagram
+                  </Button>
                 </div>
               </Card>
 
@@ -316,6 +777,14 @@ function BoardContent() {
               <Card className="p-4">
                 <h3 className="font-medium mb-3">Actions</h3>
                 <div className="space-y-2">
+                  <Button variant="outline" size="sm" onClick={() => setShowConnectionRules(true)} className="w-full">
+                    <SlidersHorizontal className="w-4 h-4 mr-2" />
+                    Connection Rules
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={runArchitectureLint} disabled={nodes.length === 0} className="w-full">
+                    <ShieldCheck className="w-4 h-4 mr-2" />
+                    Architecture Lint
+                  </Button>
                   <Button variant="destructive" size="sm" onClick={deleteSelected} className="w-full">
                     <Trash2 className="w-4 h-4 mr-2" />
                     Delete Selected
@@ -341,6 +810,9 @@ function BoardContent() {
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
           onConnect={onConnect}
+          onConnectStart={onConnectStart}
+          onConnectEnd={onConnectEnd}
+          isValidConnection={isValidConnection}
           nodeTypes={nodeTypes}
           fitView
           snapToGrid
@@ -376,7 +848,69 @@ function BoardContent() {
           />
           <Background variant="dots" gap={12} size={1} />
         </ReactFlow>
+        {validHandleStyles && <style>{validHandleStyles}</style>}
+
+        {/* Rejected Connection Toast */}
+        {connectionToast && (
+          <div
+            role="alert"
+            className="absolute bottom-6 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-md shadow-md px-4 py-2"
+          >
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{connectionToast}</span>
+            <button
+              type="button"
+              onClick={() => setConnectionToast(null)}
+              className="ml-2 text-red-400 hover:text-red-600"
+              aria-label="Dismiss"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        )}
       </div>
+
+      {/* Architecture Lint Panel */}
+      {lintResult && (
+        <ArchitectureLintPanel
+          issues={lintResult.issues}
+          checkedAt={lintResult.checkedAt}
+          onRerun={runArchitectureLint}
+          onClose={() => setLintResult(null)}
+          onSelectIssue={focusLintIssue}
+        />
+      )}
+
+      {/* Connection Rules Modal */}
+      <ConnectionRulesDialog
+        isOpen={showConnectionRules}
+        onClose={() => setShowConnectionRules(false)}
+        rules={connectionRules}
+        onSave={handleSaveConnectionRules}
+        nodeLabels={NODE_LABELS}
+      />
+
+      {/* Mermaid Exporter Modal */}
+      <MermaidExporter
+        isOpen={showMermaidExporter}
+        onClose={() => setShowMermaidExporter(false)}
+        nodes={nodes}
+        edges={edges}
+        metadata={BOARD_MERMAID_METADATA}
+        convert={convertBoardToMermaid}
+        validate={validateBoardForMermaid}
+      />
+
+      {/* Generator Export Modal */}
+      <CodeExportDialog
+        isOpen={generatorExport !== null}
+        onClose={() => setActiveGenerator(null)}
+        title={generatorExport?.title || ""}
+        icon={generatorExport?.icon}
+        description={generatorExport?.description}
+        formats={generatorExport?.formats || []}
+        warnings={generatorExport?.warnings}
+      />
     </div>
   )
 }
@@ -0,0 +1,72 @@
+import { X, AlertCircle, AlertTriangle, CheckCircle, RefreshCw, ShieldCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { type BoardLintIssue } from "@/lib/boardLint"
+
+interface ArchitectureLintPanelProps {
+  issues: BoardLintIssue[]
+  checkedAt: Date
+  onRerun: () => void
+  onClose: () => void
+  onSelectIssue: (issue: BoardLintIssue) => void
+}
+
+// Results of the last on-demand architecture audit
+export function ArchitectureLintPanel({ issues, checkedAt, onRerun, onClose, onSelectIssue }: ArchitectureLintPanelProps) {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length
+  const warningCount = issues.length - errorCount
+
+  return (
+    <div className="w-80 bg-white border-l border-gray-200 flex flex-col flex-shrink-0">
+      <div className="p-4 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4" />
+            Architecture Lint
+          </h3>
+          <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+          <span>
+            Checked at {checkedAt.toLocaleTimeString()}
+            {errorCount > 0 && <span className="text-red-600"> · {errorCount} error{errorCount !== 1 ? 's' : ''}</span>}
+            {warningCount > 0 && <span className="text-yellow-600"> · {warningCount} warning{warningCount !== 1 ? 's' : ''}</span>}
+          </span>
+          <Button variant="outline" size="sm" onClick={onRerun} className="h-7 px-2 text-xs">
+            <RefreshCw className="w-3 h-3 mr-1" />
+            Re-run
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {issues.length === 0 ? (
+          <div className="flex items-center gap-2 p-2 text-xs text-green-700">
+            <CheckCircle className="w-4 h-4" />
+            The board follows the layering rules
+          </div>
+        ) : (
+          <ul className="space-y-1">
+            {issues.map(issue => (
+              <li key={issue.id}>
+                <button
+                  onClick={() => onSelectIssue(issue)}
+                  className="w-full flex items-start gap-2 p-2 rounded-md text-left text-xs hover:bg-gray-50"
+                  title="Select and center the affected node(s)"
+                >
+                  {issue.severity === 'error' ? (
+                    <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                  ) : (
+                    <AlertTriangle className="w-4 h-4 text-yellow-600 flex-shrink-0" />
+                  )}
+                  <span className="text-gray-700">{issue.message}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
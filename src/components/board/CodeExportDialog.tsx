@@ -0,0 +1,170 @@
+import { useState, useCallback, useEffect, type ComponentType } from "react"
+import { X, Copy, Download, CheckCircle, AlertTriangle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+
+// One downloadable variant of the generated output, e.g. YAML and JSON
+export interface CodeExportFormat {
+  id: string
+  label: string
+  fileName: string
+  mimeType?: string
+  content: string
+}
+
+interface CodeExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  title: string
+  icon?: ComponentType<{ className?: string }>
+  description?: string
+  formats: CodeExportFormat[]
+  warnings?: string[]
+}
+
+// Preview, copy and download dialog shared by the Board's generators
+export function CodeExportDialog({
+  isOpen,
+  onClose,
+  title,
+  icon: Icon,
+  description,
+  formats,
+  warnings = []
+}: CodeExportDialogProps) {
+  const [selectedFormatId, setSelectedFormatId] = useState(formats[0]?.id)
+  const [copySuccess, setCopySuccess] = useState(false)
+
+  // Fall back to the first format when the list changes
+  useEffect(() => {
+    if (!formats.some(format => format.id === selectedFormatId)) {
+      setSelectedFormatId(formats[0]?.id)
+    }
+  }, [formats, selectedFormatId])
+
+  const selectedFormat = formats.find(format => format.id === selectedFormatId) || formats[0]
+
+  const copyToClipboard = useCallback(async () => {
+    if (!selectedFormat) return
+    try {
+      await navigator.clipboard.writeText(selectedFormat.content)
+      setCopySuccess(true)
+      setTimeout(() => setCopySuccess(false), 2000)
+    } catch (error) {
+      console.error("Failed to copy to clipboard:", error)
+    }
+  }, [selectedFormat])
+
+  const downloadAsFile = useCallback(() => {
+    if (!selectedFormat) return
+    const blob = new Blob([selectedFormat.content], { type: selectedFormat.mimeType || "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = selectedFormat.fileName
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }, [selectedFormat])
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <CardHeader className="flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              {Icon && <Icon className="w-5 h-5" />}
+              {title}
+            </CardTitle>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onClose}
+              className="h-8 w-8"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          {description && <p className="text-sm text-gray-500">{description}</p>}
+
+          {warnings.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 max-h-32 overflow-y-auto">
+              <div className="flex items-center gap-2 text-yellow-700 font-medium mb-2">
+                <AlertTriangle className="w-4 h-4" />
+                Warnings
+              </div>
+              <ul className="text-sm text-yellow-600 space-y-1">
+                {warnings.map((warning, index) => (
+                  <li key={index}>• {warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardHeader>
+
+        <CardContent className="flex-1 flex flex-col min-h-0">
+          {/* Format Tabs */}
+          {formats.length > 1 && (
+            <div className="flex items-center gap-2 mb-3">
+              {formats.map(format => (
+                <Button
+                  key={format.id}
+                  variant={format.id === selectedFormat?.id ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setSelectedFormatId(format.id)}
+                >
+                  {format.label}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {/* Code Preview */}
+          <div className="flex-1 min-h-0 border rounded-md bg-gray-50 overflow-auto">
+            <pre className="p-4 text-sm font-mono text-gray-800 whitespace-pre">
+              {selectedFormat?.content}
+            </pre>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex items-center justify-between mt-4 pt-4 border-t">
+            <div className="text-sm text-gray-500">
+              {selectedFormat?.fileName}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={downloadAsFile}
+                disabled={!selectedFormat?.content}
+                className="flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                Download
+              </Button>
+              <Button
+                onClick={copyToClipboard}
+                disabled={!selectedFormat?.content}
+                className="flex items-center gap-2"
+              >
+                {copySuccess ? (
+                  <>
+                    <CheckCircle className="w-4 h-4" />
+                    Copied!
+                  </>
+                ) : (
+                  <>
+                    <Copy className="w-4 h-4" />
+                    Copy to Clipboard
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback } from "react"
+import { X, SlidersHorizontal, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { DEFAULT_CONNECTION_RULES, type ConnectionRuleSet } from "@/lib/boardConnectionRules"
+import { BOARD_NODE_TYPES, type BoardNodeType } from "@/lib/boardNodeModels"
+
+interface ConnectionRulesDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  rules: ConnectionRuleSet
+  onSave: (rules: ConnectionRuleSet) => void
+  nodeLabels: Record<string, string>
+}
+
+// Matrix editor for which layers may call which
+export function ConnectionRulesDialog({ isOpen, onClose, rules, onSave, nodeLabels }: ConnectionRulesDialogProps) {
+  const [draft, setDraft] = useState(rules)
+
+  // Start from the active rules each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(rules)
+    }
+  }, [isOpen, rules])
+
+  const toggleTarget = useCallback((source: BoardNodeType, target: BoardNodeType) => {
+    setDraft(current => {
+      const targets = current.allowedTargets[source]
+      return {
+        ...current,
+        allowedTargets: {
+          ...current.allowedTargets,
+          [source]: targets.includes(target)
+            ? targets.filter(type => type !== target)
+            : BOARD_NODE_TYPES.filter(type => type === target || targets.includes(type)),
+        },
+      }
+    })
+  }, [])
+
+  const handleSave = useCallback(() => {
+    onSave(draft)
+    onClose()
+  }, [draft, onSave, onClose])
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <CardHeader className="flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="w-5 h-5" />
+              Connection Rules
+            </CardTitle>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onClose}
+              className="h-8 w-8"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-sm text-gray-500">
+            Tick the layers each node type may call. Existing connections are kept when the rules change.
+          </p>
+        </CardHeader>
+
+        <CardContent className="flex-1 min-h-0 overflow-auto">
+          {/* Rule Matrix */}
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="p-2 text-left text-xs font-medium text-gray-500">Caller ↓ / Callee →</th>
+                {BOARD_NODE_TYPES.map(target => (
+                  <th key={target} className="p-2 text-xs font-medium text-gray-700 text-center">
+                    {nodeLabels[target] || target}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {BOARD_NODE_TYPES.map(source => (
+                <tr key={source} className="border-t border-gray-100">
+                  <th className="p-2 text-left text-xs font-medium text-gray-700">{nodeLabels[source] || source}</th>
+                  {BOARD_NODE_TYPES.map(target => (
+                    <td key={target} className="p-2 text-center">
+                      {source === target ? (
+                        <span className="text-gray-300">—</span>
+                      ) : (
+                        <input
+                          type="checkbox"
+                          checked={draft.allowedTargets[source].includes(target)}
+                          onChange={() => toggleTarget(source, target)}
+                          aria-label={`${nodeLabels[source] || source} may call ${nodeLabels[target] || target}`}
+                        />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <label className="flex items-center gap-2 mt-4 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.allowSameType}
+              onChange={(e) => setDraft(current => ({ ...current, allowSameType: e.target.checked }))}
+            />
+            Allow chaining nodes of the same type (side handles)
+          </label>
+
+          {/* Action Buttons */}
+          <div className="flex items-center justify-between mt-4 pt-4 border-t">
+            <Button
+              variant="outline"
+              onClick={() => setDraft(DEFAULT_CONNECTION_RULES)}
+              className="flex items-center gap-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset to Defaults
+            </Button>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave}>
+                Save Rules
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { ChevronRight, Layers } from "lucide-react"
+import { type FlowchartSummary } from "@/lib/flowchartStorage"
+
+export interface FlowchartTrailEntry {
+  id: string
+  title: string
+}
+
+interface FlowchartBreadcrumbProps {
+  trail: FlowchartTrailEntry[]
+  currentTitle: string
+  // Library listing, so renamed parents show their current title
+  flowcharts: FlowchartSummary[]
+  onNavigate: (index: number) => void
+}
+
+// Path from the outermost flowchart down to the linked one being edited
+export function FlowchartBreadcrumb({ trail, currentTitle, flowcharts, onNavigate }: FlowchartBreadcrumbProps) {
+  return (
+    <nav
+      className="absolute top-4 left-1/2 -translate-x-1/2 z-10 max-w-[60%] flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-lg shadow-md text-sm"
+      aria-label="Parent flowcharts"
+    >
+      <Layers className="w-4 h-4 text-gray-500 flex-shrink-0" />
+      {trail.map((entry, index) => (
+        <span key={`${entry.id}-${index}`} className="flex items-center gap-1 min-w-0">
+          <button
+            onClick={() => onNavigate(index)}
+            className="text-blue-600 hover:underline truncate"
+            title={`Back to ${entry.title}`}
+          >
+            {flowcharts.find(flowchart => flowchart.id === entry.id)?.title || entry.title || 'Untitled Flowchart'}
+          </button>
+          <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+        </span>
+      ))}
+      <span className="font-medium text-gray-900 truncate" aria-current="page">
+        {currentTitle || 'Untitled Flowchart'}
+      </span>
+    </nav>
+  )
+}
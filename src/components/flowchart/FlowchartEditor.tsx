@@ -1,6 +1,6 @@
 "use client"
 
-import { useCallback, useEffect, useRef, useState, type DragEvent } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState, type DragEvent, type MouseEvent } from "react"
 import ReactFlow, {
   type Edge,
   type Node,
@@ -16,24 +16,74 @@ import ReactFlow, {
   useReactFlow,
   MarkerType,
   type Viewport,
+  getNodesBounds,
 } from "reactflow"
 import "reactflow/dist/style.css"
 
 import { FlowchartSidebar } from "./FlowchartSidebar"
 import { KeyboardShortcutsDialog } from "./KeyboardShortcutsDialog"
+import { FlowchartSimulationPanel } from "./FlowchartSimulationPanel"
+import { FlowchartBreadcrumb, type FlowchartTrailEntry } from "./FlowchartBreadcrumb"
 import { StartNode } from "./nodes/StartNode"
 import { ProcessNode } from "./nodes/ProcessNode"
 import { DecisionNode } from "./nodes/DecisionNode"
 import { ConnectorNode } from "./nodes/ConnectorNode"
+import { InputOutputNode } from "./nodes/InputOutputNode"
+import { DocumentNode } from "./nodes/DocumentNode"
+import { SubprocessNode } from "./nodes/SubprocessNode"
+import { DatabaseNode } from "./nodes/DatabaseNode"
+import { ManualOperationNode } from "./nodes/ManualOperationNode"
+import { DelayNode } from "./nodes/DelayNode"
+import { SwimlaneNode } from "./nodes/SwimlaneNode"
 import { 
   saveFlowchartData, 
   loadFlowchartData, 
   autoSaveFlowchartData, 
+  flushAutoSave,
+  cancelAutoSave,
   clearFlowchartData,
   createNewFlowchart,
+  listFlowcharts,
+  renameFlowchart,
+  duplicateFlowchart,
+  deleteFlowchart,
   FlowchartStorageError,
-  type FlowchartData 
+  type FlowchartData,
+  type FlowchartSummary,
 } from "@/lib/flowchartStorage"
+import { useFlowchartHistory, type FlowchartSnapshot } from "@/hooks/useFlowchartHistory"
+import {
+  createClipboardPayload,
+  instantiateClipboardPayload,
+  parseClipboardPayload,
+  serializeClipboardPayload,
+  type FlowchartClipboardPayload,
+} from "@/lib/flowchartClipboard"
+import { computeFlowchartLayout, type LayoutDirection } from "@/lib/flowchartLayout"
+import { type MermaidParseResult } from "@/lib/mermaidParser"
+import { renderFlowchartImage, downloadDataUrl, type ImageExportOptions } from "@/lib/flowchartImageExport"
+import { type FlowchartIssue } from "@/lib/flowchartValidation"
+import { getLinkedFlowchartId } from "@/lib/flowchartLinks"
+import {
+  DEFAULT_SWIMLANE_SIZES,
+  assignNodeToLane,
+  detachFromLanes,
+  isSwimlaneNode,
+  sortLanesFirst,
+  withCanvasPositions,
+  type SwimlaneOrientation,
+} from "@/lib/flowchartSwimlanes"
+import {
+  createSimulationStep,
+  formatScenarioList,
+  getScenarioOutcome,
+  getSimulationChoices,
+  getSimulationStartNodes,
+  recordScenario,
+  type FlowchartScenario,
+  type SimulationChoice,
+  type SimulationStep,
+} from "@/lib/flowchartSimulation"
 
 // Suppress ResizeObserver error
 const suppressResizeObserverError = () => {
@@ -68,6 +118,12 @@ export default function FlowchartEditor() {
   )
 }
 
+// Keyboard and clipboard shortcuts are ignored while typing into a field
+function isEditingText(): boolean {
+  const activeElement = document.activeElement
+  return !!activeElement && (activeElement.tagName === "INPUT" || activeElement.tagName === "TEXTAREA")
+}
+
 // Define node types for ReactFlow
 const nodeTypes = {
   startNode: StartNode,
@@ -75,6 +131,13 @@ const nodeTypes = {
   processNode: ProcessNode,
   decisionNode: DecisionNode,
   connectorNode: ConnectorNode,
+  inputOutputNode: InputOutputNode,
+  documentNode: DocumentNode,
+  subprocessNode: SubprocessNode,
+  databaseNode: DatabaseNode,
+  manualOperationNode: ManualOperationNode,
+  delayNode: DelayNode,
+  swimlaneNode: SwimlaneNode,
 }
 
 function FlowchartContent() {
@@ -91,9 +154,40 @@ function FlowchartContent() {
   const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'error' | 'unsaved'>('saved')
   const [saveError, setSaveError] = useState<string | null>(null)
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false)
+  const [recentFlowcharts, setRecentFlowcharts] = useState<FlowchartSummary[]>([])
+  // Parent flowcharts left by opening a linked subprocess, outermost first
+  const [flowchartTrail, setFlowchartTrail] = useState<FlowchartTrailEntry[]>([])
+  const [layoutDirection, setLayoutDirection] = useState<LayoutDirection>('TD')
+  // Steps of the running walkthrough; null while editing
+  const [simulationPath, setSimulationPath] = useState<SimulationStep[] | null>(null)
+  const [scenarios, setScenarios] = useState<FlowchartScenario[]>([])
   const reactFlowWrapper = useRef<HTMLDivElement>(null)
   const { screenToFlowPosition, fitView, zoomIn, zoomOut, zoomTo, getZoom, getViewport, setViewport } = useReactFlow()
   const nodeId = useRef(0)
+  const dragStartSnapshot = useRef<FlowchartSnapshot<typeof flowchartMetadata> | null>(null)
+  // Fallback for browsers that block access to the system clipboard
+  const clipboard = useRef<FlowchartClipboardPayload | null>(null)
+  const pasteCount = useRef(0)
+  const layoutAnimationFrame = useRef<number | null>(null)
+
+  // Undo/redo history covering nodes, edges and metadata
+  const {
+    takeSnapshot,
+    captureSnapshot,
+    pushSnapshot,
+    undo,
+    redo,
+    clearHistory,
+    canUndo,
+    canRedo,
+  } = useFlowchartHistory({
+    nodes,
+    edges,
+    metadata: flowchartMetadata,
+    setNodes,
+    setEdges,
+    setMetadata: setFlowchartMetadata,
+  })
 
   // Validate connections for flowchart logic
   const isValidConnection = useCallback((connection: Connection | Edge) => {
@@ -160,6 +254,7 @@ function FlowchartContent() {
         className: 'flowchart-edge',
       }
       
+      takeSnapshot()
       setEdges((eds) => addEdge(newEdge, eds))
       // Update flowchart timestamp when edges are added
       setFlowchartMetadata((prev) => ({
@@ -167,18 +262,51 @@ function FlowchartContent() {
         updatedAt: new Date(),
       }))
     },
-    [setEdges, isValidConnection],
+    [setEdges, isValidConnection, takeSnapshot],
   )
 
   const deleteSelected = useCallback(() => {
+    if (!nodes.some((node) => node.selected) && !edges.some((edge) => edge.selected)) {
+      return
+    }
+
+    takeSnapshot()
     setEdges((eds) => eds.filter((edge) => !edge.selected))
-    setNodes((nodes) => nodes.filter((node) => !node.selected))
+    setNodes((nodes) => {
+      // Steps in a deleted lane stay on the canvas
+      const removedLaneIds = new Set(nodes.filter((node) => node.selected && isSwimlaneNode(node)).map((node) => node.id))
+      return detachFromLanes(nodes, removedLaneIds).filter((node) => !node.selected)
+    })
     // Update flowchart timestamp when nodes or edges are deleted
     setFlowchartMetadata((prev) => ({
       ...prev,
       updatedAt: new Date(),
     }))
-  }, [setNodes, setEdges])
+  }, [nodes, edges, setNodes, setEdges, takeSnapshot])
+
+  // Record node moves as one undo step per drag
+  const onNodeDragStart = useCallback(() => {
+    dragStartSnapshot.current = captureSnapshot()
+  }, [captureSnapshot])
+
+  const onNodeDragStop = useCallback((_event: MouseEvent, _node: Node, draggedNodes: Node[]) => {
+    const snapshot = dragStartSnapshot.current
+    dragStartSnapshot.current = null
+    if (!snapshot) {
+      return
+    }
+
+    const moved = draggedNodes.some((draggedNode) => {
+      const before = snapshot.nodes.find((node) => node.id === draggedNode.id)
+      return !before || before.position.x !== draggedNode.position.x || before.position.y !== draggedNode.position.y
+    })
+    if (moved) {
+      pushSnapshot(snapshot)
+      // Dropping a step on a lane puts it in the lane; dragging it out takes it out
+      const draggedIds = new Set(draggedNodes.map((node) => node.id))
+      setNodes((nodes) => nodes.map((node) => (draggedIds.has(node.id) ? assignNodeToLane(node, nodes) : node)))
+    }
+  }, [pushSnapshot, setNodes])
 
   const selectAll = useCallback(() => {
     setNodes((nodes) => nodes.map((node) => ({ ...node, selected: true })))
@@ -260,6 +388,212 @@ function FlowchartContent() {
     }, { duration: 500 })
   }, [nodes, setViewport, getZoom])
 
+  // Center the view on some nodes, keeping the current zoom
+  const centerOnNodes = useCallback((targetNodes: Node[]) => {
+    const bounds = getNodesBounds(withCanvasPositions(targetNodes, nodes))
+    const viewportWidth = reactFlowWrapper.current?.clientWidth || 800
+    const viewportHeight = reactFlowWrapper.current?.clientHeight || 600
+    const currentZoom = getZoom()
+    setViewport({
+      x: viewportWidth / 2 - (bounds.x + bounds.width / 2) * currentZoom,
+      y: viewportHeight / 2 - (bounds.y + bounds.height / 2) * currentZoom,
+      zoom: currentZoom
+    }, { duration: 500 })
+  }, [nodes, setViewport, getZoom])
+
+  // Select the nodes of a validation issue and center the view on them
+  const focusValidationIssue = useCallback((issue: FlowchartIssue) => {
+    const issueNodeIds = new Set(issue.nodeIds)
+    const issueNodes = nodes.filter(node => issueNodeIds.has(node.id))
+    if (issueNodes.length === 0) {
+      return
+    }
+
+    setNodes(nds => nds.map(node => ({ ...node, selected: issueNodeIds.has(node.id) })))
+    setEdges(eds => eds.map(edge => ({ ...edge, selected: false })))
+    centerOnNodes(issueNodes)
+  }, [nodes, setNodes, setEdges, centerOnNodes])
+
+  // Move the walkthrough to the last step of a path, recording it once it cannot go on
+  const walkSimulationPath = useCallback((path: SimulationStep[]) => {
+    setSimulationPath(path)
+    const current = path[path.length - 1]
+    const currentNode = current && nodes.find(node => node.id === current.nodeId)
+    if (!currentNode) {
+      return
+    }
+
+    const outcome = getScenarioOutcome(currentNode.id, nodes, edges)
+    if (outcome) {
+      setScenarios(recorded => recordScenario(recorded, path, outcome))
+    }
+    centerOnNodes([currentNode])
+  }, [nodes, edges, centerOnNodes])
+
+  const startSimulation = useCallback(() => {
+    const startNodes = getSimulationStartNodes(nodes)
+    if (startNodes.length === 0) {
+      return
+    }
+
+    // The chart is read-only during a walkthrough, so drop the selection
+    setNodes(nds => nds.map(node => ({ ...node, selected: false })))
+    setEdges(eds => eds.map(edge => ({ ...edge, selected: false })))
+    // With several start nodes the panel asks where to begin
+    if (startNodes.length === 1) {
+      walkSimulationPath([createSimulationStep(startNodes[0])])
+    } else {
+      setSimulationPath([])
+    }
+  }, [nodes, setNodes, setEdges, walkSimulationPath])
+
+  const startSimulationAt = useCallback((nodeId: string) => {
+    const startNode = nodes.find(node => node.id === nodeId)
+    if (startNode) {
+      walkSimulationPath([createSimulationStep(startNode)])
+    }
+  }, [nodes, walkSimulationPath])
+
+  const chooseSimulationStep = useCallback((choice: SimulationChoice) => {
+    const path = simulationPath || []
+    const current = path[path.length - 1]
+    const currentNode = current && nodes.find(node => node.id === current.nodeId)
+    const target = nodes.find(node => node.id === choice.targetId)
+    if (!current || !target) {
+      return
+    }
+
+    walkSimulationPath([
+      ...path.slice(0, -1),
+      { ...current, edgeId: choice.edgeId, choice: currentNode?.type === 'decisionNode' ? choice.label : undefined },
+      createSimulationStep(target),
+    ])
+  }, [simulationPath, nodes, walkSimulationPath])
+
+  const stepSimulationBack = useCallback(() => {
+    const path = simulationPath || []
+    if (path.length <= 1) {
+      return
+    }
+
+    const previous = path[path.length - 2]
+    walkSimulationPath([...path.slice(0, -2), { nodeId: previous.nodeId, label: previous.label }])
+  }, [simulationPath, walkSimulationPath])
+
+  const stopSimulation = useCallback(() => {
+    setSimulationPath(null)
+  }, [])
+
+  const exportScenarios = useCallback(() => {
+    const blob = new Blob([formatScenarioList(scenarios, flowchartMetadata.title)], { type: "text/markdown" })
+    const url = URL.createObjectURL(blob)
+    downloadDataUrl(url, `${flowchartMetadata.title || 'flowchart'}-scenarios.md`)
+    URL.revokeObjectURL(url)
+  }, [scenarios, flowchartMetadata.title])
+
+  const simulationState = useMemo(() => {
+    const current = simulationPath?.[simulationPath.length - 1]
+    if (!current) {
+      return { choices: [], isDecision: false, outcome: undefined }
+    }
+    return {
+      choices: getSimulationChoices(current.nodeId, nodes, edges),
+      isDecision: nodes.find(node => node.id === current.nodeId)?.type === 'decisionNode',
+      outcome: getScenarioOutcome(current.nodeId, nodes, edges),
+    }
+  }, [simulationPath, nodes, edges])
+
+  // Highlight the walkthrough on the canvas without touching the saved nodes and edges
+  const displayedNodes = useMemo(() => {
+    if (!simulationPath) {
+      return nodes
+    }
+    const visited = new Set(simulationPath.map(step => step.nodeId))
+    const currentId = simulationPath[simulationPath.length - 1]?.nodeId
+    return nodes.map(node => {
+      if (isSwimlaneNode(node)) {
+        return { ...node, data: { ...node.data, onUpdate: undefined } }
+      }
+      const state = node.id === currentId ? 'simulation-current' : visited.has(node.id) ? 'simulation-visited' : 'simulation-dimmed'
+      return {
+        ...node,
+        className: [node.className, state].filter(Boolean).join(' '),
+        // Node components edit through onUpdate, so leaving it out makes them read-only
+        data: { ...node.data, onUpdate: undefined },
+      }
+    })
+  }, [nodes, simulationPath])
+
+  const displayedEdges = useMemo(() => {
+    if (!simulationPath) {
+      return edges
+    }
+    const taken = new Set(simulationPath.map(step => step.edgeId))
+    return edges.map(edge => ({
+      ...edge,
+      animated: taken.has(edge.id),
+      className: [edge.className, taken.has(edge.id) ? 'simulation-taken' : 'simulation-dimmed'].filter(Boolean).join(' '),
+    }))
+  }, [edges, simulationPath])
+
+  // Arrange nodes in layers and animate them to their new positions
+  const applyAutoLayout = useCallback((direction: LayoutDirection = layoutDirection) => {
+    // Lanes and the steps inside them keep their arrangement
+    const layoutNodes = nodes.filter((node) => !isSwimlaneNode(node) && !node.parentNode)
+    if (layoutNodes.length === 0) {
+      return
+    }
+
+    const targets = computeFlowchartLayout(layoutNodes, edges, { direction })
+    const startPositions = new Map(nodes.map((node) => [node.id, node.position]))
+    const duration = 400
+    const startTime = performance.now()
+
+    takeSnapshot()
+    if (layoutAnimationFrame.current !== null) {
+      cancelAnimationFrame(layoutAnimationFrame.current)
+    }
+
+    const step = (time: number) => {
+      const progress = Math.min((time - startTime) / duration, 1)
+      const eased = 1 - Math.pow(1 - progress, 3) // ease-out cubic
+
+      setNodes((nodes) =>
+        nodes.map((node) => {
+          const start = startPositions.get(node.id)
+          const target = targets.get(node.id)
+          if (!start || !target) {
+            return node
+          }
+          return {
+            ...node,
+            position: {
+              x: start.x + (target.x - start.x) * eased,
+              y: start.y + (target.y - start.y) * eased,
+            },
+          }
+        })
+      )
+
+      if (progress < 1) {
+        layoutAnimationFrame.current = requestAnimationFrame(step)
+      } else {
+        layoutAnimationFrame.current = null
+        setFlowchartMetadata((prev) => ({
+          ...prev,
+          updatedAt: new Date(),
+        }))
+        fitView({ padding: 0.15, duration: 400 })
+      }
+    }
+
+    layoutAnimationFrame.current = requestAnimationFrame(step)
+  }, [nodes, edges, layoutDirection, setNodes, takeSnapshot, fitView])
+
+  const handleLayoutDirectionChange = useCallback((direction: LayoutDirection) => {
+    setLayoutDirection(direction)
+  }, [])
+
   // Additional zoom control for mouse wheel with smooth scaling
   const handleWheelZoom = useCallback((event: WheelEvent) => {
     if (!event.ctrlKey && !event.metaKey) return
@@ -272,6 +606,11 @@ function FlowchartContent() {
     zoomTo(newZoom, { duration: 100 })
   }, [getZoom, zoomTo])
 
+  // Reload the flowchart library listing shown in the sidebar
+  const refreshLibrary = useCallback(async () => {
+    setRecentFlowcharts(await listFlowcharts())
+  }, [])
+
   // Auto-save functionality
   const performAutoSave = useCallback(async () => {
     if (nodes.length === 0 && edges.length === 0) {
@@ -292,15 +631,24 @@ function FlowchartContent() {
       
       setCurrentFlowchartId(savedData.id)
       setSaveStatus('saved')
+      await refreshLibrary()
     } catch (error) {
       console.error('Auto-save failed:', error)
       setSaveStatus('error')
       setSaveError(error instanceof FlowchartStorageError ? error.message : 'Failed to save flowchart')
     }
-  }, [nodes, edges, flowchartMetadata, currentFlowchartId])
+  }, [nodes, edges, flowchartMetadata, currentFlowchartId, refreshLibrary])
 
    // Handle node updates from within node components
   const onNodeUpdate = useCallback((id: string, updates: object) => {
+    // Skip no-op edits (e.g. leaving a label unchanged) so they don't become undo steps
+    const node = captureSnapshot().nodes.find((node) => node.id === id)
+    const hasChanges = !node || Object.entries(updates).some(([key, value]) => node.data?.[key] !== value)
+    if (!hasChanges) {
+      return
+    }
+
+    takeSnapshot()
     setNodes((nodes) =>
       nodes.map((node) =>
         node.id === id
@@ -313,51 +661,230 @@ function FlowchartContent() {
       ...prev,
       updatedAt: new Date(),
     }))
-  }, [setNodes])
+  }, [setNodes, captureSnapshot, takeSnapshot])
+
+  // Add copied nodes to the canvas as the new selection
+  const insertClipboardPayload = useCallback((payload: FlowchartClipboardPayload, offset: number) => {
+    const { nodes: pastedNodes, edges: pastedEdges } = instantiateClipboardPayload(
+      payload,
+      (node) => `${node.type}-${nodeId.current++}`,
+      { x: offset, y: offset }
+    )
+    if (pastedNodes.length === 0) {
+      return
+    }
+
+    takeSnapshot()
+    setNodes((nodes) => sortLanesFirst([
+      ...nodes.map((node) => ({ ...node, selected: false })),
+      ...pastedNodes.map((node) => ({ ...node, data: { ...node.data, onUpdate: onNodeUpdate } })),
+    ]))
+    setEdges((edges) => [...edges.map((edge) => ({ ...edge, selected: false })), ...pastedEdges])
+    setFlowchartMetadata((prev) => ({
+      ...prev,
+      updatedAt: new Date(),
+    }))
+  }, [setNodes, setEdges, onNodeUpdate, takeSnapshot])
+
+  const copySelection = useCallback((event: ClipboardEvent) => {
+    const payload = createClipboardPayload(nodes, edges)
+    if (!payload) {
+      return false
+    }
+
+    // Write JSON to the system clipboard so the selection can be pasted in another tab
+    event.preventDefault()
+    event.clipboardData?.setData("text/plain", serializeClipboardPayload(payload))
+    clipboard.current = payload
+    pasteCount.current = 0
+    return true
+  }, [nodes, edges])
+
+  const onCopy = useCallback((event: ClipboardEvent) => {
+    if (isEditingText()) return
+    copySelection(event)
+  }, [copySelection])
+
+  const onCut = useCallback((event: ClipboardEvent) => {
+    if (isEditingText() || simulationPath) return
+    if (copySelection(event)) {
+      deleteSelected()
+    }
+  }, [copySelection, deleteSelected, simulationPath])
+
+  const onPaste = useCallback((event: ClipboardEvent) => {
+    if (isEditingText() || simulationPath) return
+
+    const text = event.clipboardData?.getData("text/plain")
+    const payload = text ? parseClipboardPayload(text) : clipboard.current
+    if (!payload) {
+      return
+    }
+
+    event.preventDefault()
+    pasteCount.current += 1
+    insertClipboardPayload(payload, 30 * pasteCount.current)
+  }, [insertClipboardPayload, simulationPath])
+
+  // Duplicate the selection in place without touching the clipboard
+  const duplicateSelected = useCallback(() => {
+    const payload = createClipboardPayload(nodes, edges)
+    if (payload) {
+      insertClipboardPayload(payload, 30)
+    }
+  }, [nodes, edges, insertClipboardPayload])
+
+  // Replace the canvas contents with a stored or template flowchart
+  const applyFlowchartData = useCallback((flowchartData: FlowchartData) => {
+    // Update node data with onUpdate callback
+    const nodesWithCallbacks = flowchartData.nodes.map(node => ({
+      ...node,
+      data: {
+        ...node.data,
+        onUpdate: onNodeUpdate,
+      }
+    }))
+    
+    setNodes(sortLanesFirst(nodesWithCallbacks))
+    setEdges(flowchartData.edges)
+    // Walkthroughs belong to the flowchart they were recorded on
+    setSimulationPath(null)
+    setScenarios([])
+    setFlowchartMetadata({
+      title: flowchartData.title,
+      description: flowchartData.description || "",
+      createdAt: flowchartData.createdAt,
+      updatedAt: flowchartData.updatedAt,
+    })
+    
+    // Update nodeId counter to avoid conflicts
+    const maxId = Math.max(
+      0,
+      ...flowchartData.nodes
+        .map(node => {
+          const match = node.id.match(/-(\d+)$/)
+          return match ? parseInt(match[1], 10) : 0
+        })
+        .filter(id => !isNaN(id))
+    )
+    nodeId.current = maxId + 1
+  }, [setNodes, setEdges, onNodeUpdate])
 
   // Clear flowchart and create new one
-  const createNewFlowchartHandler = useCallback((template: 'empty' | 'basic' | 'decision' = 'empty') => {
+  const createNewFlowchartHandler = useCallback(async (template: 'empty' | 'basic' | 'decision' = 'empty') => {
     try {
+      // Persist pending edits of the current flowchart before replacing it
+      await flushAutoSave()
+
       const newFlowchart = createNewFlowchart(template)
-      
-      // Update node data with onUpdate callback
-      const nodesWithCallbacks = newFlowchart.nodes.map(node => ({
-        ...node,
-        data: {
-          ...node.data,
-          onUpdate: onNodeUpdate,
-        }
-      }))
-      
-      setNodes(nodesWithCallbacks)
-      setEdges(newFlowchart.edges)
-      setFlowchartMetadata({
-        title: newFlowchart.title,
-        description: newFlowchart.description || "",
-        createdAt: newFlowchart.createdAt,
-        updatedAt: newFlowchart.updatedAt,
-      })
+      applyFlowchartData(newFlowchart)
+      clearHistory()
       setCurrentFlowchartId(undefined) // New flowchart doesn't have an ID yet
+      setFlowchartTrail([])
       setSaveStatus('unsaved')
       setSaveError(null)
-      
-      // Reset node ID counter
-      const maxId = Math.max(
-        ...newFlowchart.nodes
-          .map(node => {
-            const match = node.id.match(/-(\d+)$/)
-            return match ? parseInt(match[1], 10) : 0
-          })
-          .filter(id => !isNaN(id))
-      )
-      nodeId.current = maxId + 1
-      
     } catch (error) {
       console.error('Failed to create new flowchart:', error)
       setSaveError('Failed to create new flowchart')
       setSaveStatus('error')
     }
-  }, [setNodes, setEdges, onNodeUpdate]);
+  }, [applyFlowchartData, clearHistory]);
+
+  // Start a new flowchart from parsed Mermaid text, keeping the diagram's direction
+  const importMermaidHandler = useCallback(async (result: MermaidParseResult) => {
+    try {
+      await flushAutoSave()
+
+      const importedFlowchart = createNewFlowchart('empty')
+      applyFlowchartData({
+        ...importedFlowchart,
+        title: result.title || 'Imported Flowchart',
+        nodes: result.nodes,
+        edges: result.edges,
+      })
+      clearHistory()
+      setCurrentFlowchartId(undefined)
+      setFlowchartTrail([])
+      setLayoutDirection(result.direction)
+      setSaveStatus('unsaved')
+      setSaveError(null)
+
+      // Wait for the imported nodes to render before fitting them
+      setTimeout(() => fitView({ padding: 0.15, duration: 400 }), 50)
+    } catch (error) {
+      console.error('Failed to import Mermaid flowchart:', error)
+      setSaveError('Failed to import Mermaid flowchart')
+      setSaveStatus('error')
+    }
+  }, [applyFlowchartData, clearHistory, fitView])
+
+  // Render the canvas (or the selection) to an image file
+  const exportImageHandler = useCallback(async (options: ImageExportOptions) => {
+    const viewportElement = reactFlowWrapper.current?.querySelector<HTMLElement>('.react-flow__viewport')
+    if (!viewportElement) {
+      throw new Error('Flowchart canvas is not ready')
+    }
+
+    const dataUrl = await renderFlowchartImage(viewportElement, withCanvasPositions(nodes, nodes), edges, options, flowchartMetadata.title)
+    downloadDataUrl(dataUrl, `${flowchartMetadata.title || 'flowchart'}.${options.format}`)
+  }, [nodes, edges, flowchartMetadata.title])
+
+  // Open another flowchart from the library. Resolves to whether it was opened.
+  const openFlowchartHandler = useCallback(async (id: string): Promise<boolean> => {
+    if (id === currentFlowchartId) {
+      return false
+    }
+
+    try {
+      await flushAutoSave()
+
+      const flowchartData = await loadFlowchartData(id)
+      if (!flowchartData) {
+        throw new FlowchartStorageError("Flowchart was not found in the library")
+      }
+
+      applyFlowchartData(flowchartData)
+      clearHistory()
+      setCurrentFlowchartId(flowchartData.id)
+      setSaveStatus('saved')
+      setSaveError(null)
+      await refreshLibrary()
+      return true
+    } catch (error) {
+      console.error('Failed to open flowchart:', error)
+      setSaveError(error instanceof FlowchartStorageError ? error.message : 'Failed to open flowchart')
+      setSaveStatus('error')
+      await refreshLibrary()
+      return false
+    }
+  }, [currentFlowchartId, applyFlowchartData, clearHistory, refreshLibrary])
+
+  // Opening a flowchart from the library starts a new breadcrumb trail
+  const openLibraryFlowchart = useCallback(async (id: string) => {
+    if (await openFlowchartHandler(id)) {
+      setFlowchartTrail([])
+    }
+  }, [openFlowchartHandler])
+
+  // Double-clicking a linked subprocess opens its flowchart with a way back
+  const onNodeDoubleClick = useCallback(async (_event: MouseEvent, node: Node) => {
+    const linkedId = getLinkedFlowchartId(node)
+    if (!linkedId || simulationPath) {
+      return
+    }
+
+    const parent = currentFlowchartId ? { id: currentFlowchartId, title: flowchartMetadata.title } : undefined
+    if (await openFlowchartHandler(linkedId)) {
+      setFlowchartTrail((trail) => (parent ? [...trail, parent] : trail))
+    }
+  }, [simulationPath, currentFlowchartId, flowchartMetadata.title, openFlowchartHandler])
+
+  // Go back up to a flowchart in the breadcrumb trail
+  const openTrailFlowchart = useCallback(async (index: number) => {
+    if (await openFlowchartHandler(flowchartTrail[index].id)) {
+      setFlowchartTrail((trail) => trail.slice(0, index))
+    }
+  }, [flowchartTrail, openFlowchartHandler])
 
   const onKeyDown = useCallback(
     (event: React.KeyboardEvent) => {
@@ -367,9 +894,39 @@ function FlowchartContent() {
         return
       }
 
+      // Editing shortcuts are off during a walkthrough; Escape leaves it
+      if (simulationPath) {
+        if (event.key === "Escape") {
+          stopSimulation()
+        }
+        return
+      }
+
       // Handle keyboard shortcuts
       if (event.key === "Delete" || event.key === "Backspace") {
         deleteSelected()
+      } else if (event.key.toLowerCase() === "z" && (event.ctrlKey || event.metaKey)) {
+        // Undo with Ctrl/Cmd + Z, redo with Ctrl/Cmd + Shift + Z
+        event.preventDefault()
+        if (event.shiftKey) {
+          redo()
+        } else {
+          undo()
+        }
+      } else if (event.key === "y" && (event.ctrlKey || event.metaKey)) {
+        // Redo with Ctrl/Cmd + Y
+        event.preventDefault()
+        redo()
+      } else if (event.key === "d" && (event.ctrlKey || event.metaKey)) {
+        // Duplicate selection with Ctrl/Cmd + D, one copy per press
+        event.preventDefault()
+        if (!event.repeat) {
+          duplicateSelected()
+        }
+      } else if (event.key.toLowerCase() === "l" && (event.ctrlKey || event.metaKey) && event.shiftKey) {
+        // Auto layout with Ctrl/Cmd + Shift + L
+        event.preventDefault()
+        applyAutoLayout()
       } else if (event.key === "a" && (event.ctrlKey || event.metaKey)) {
         event.preventDefault()
         selectAll()
@@ -433,17 +990,19 @@ function FlowchartContent() {
         setViewport({ ...viewport, x: viewport.x - 50 }, { duration: 200 })
       }
     },
-    [deleteSelected, selectAll, deselectAll, handleZoomIn, handleZoomOut, handleZoomReset, handleZoomToFit, handleCenterView, getViewport, setViewport, performAutoSave, createNewFlowchartHandler],
+    [simulationPath, stopSimulation, deleteSelected, undo, redo, duplicateSelected, applyAutoLayout, selectAll, deselectAll, handleZoomIn, handleZoomOut, handleZoomReset, handleZoomToFit, handleCenterView, getViewport, setViewport, performAutoSave, createNewFlowchartHandler],
   )
 
   // Handle flowchart metadata updates
   const updateFlowchartMetadata = useCallback((updates: Partial<typeof flowchartMetadata>) => {
+    // Typing into the same field is recorded as a single undo step
+    takeSnapshot(`metadata:${Object.keys(updates).sort().join(",")}`)
     setFlowchartMetadata((prev) => ({
       ...prev,
       ...updates,
       updatedAt: new Date(),
     }))
-  }, [])
+  }, [takeSnapshot])
 
   // Handle drag over for drop zone
   const onDragOver = useCallback((event: DragEvent) => {
@@ -478,7 +1037,7 @@ function FlowchartContent() {
       const type = event.dataTransfer.getData("application/reactflow")
       const nodeDataString = event.dataTransfer.getData("application/json")
       
-      if (!type || !nodeDataString) {
+      if (!type || !nodeDataString || simulationPath) {
         return
       }
 
@@ -504,9 +1063,15 @@ function FlowchartContent() {
             ...nodeData,
             onUpdate: onNodeUpdate,
           },
+          ...(type === "swimlaneNode"
+            ? { style: { ...DEFAULT_SWIMLANE_SIZES[nodeData.orientation as SwimlaneOrientation || "horizontal"] } }
+            : {}),
         }
 
-        setNodes((nodes) => nodes.concat(newNode))
+        takeSnapshot()
+        setNodes((nodes) =>
+          isSwimlaneNode(newNode) ? sortLanesFirst(nodes.concat(newNode)) : nodes.concat(assignNodeToLane(newNode, nodes))
+        )
         // Update flowchart timestamp when new nodes are added
         setFlowchartMetadata((prev) => ({
           ...prev,
@@ -514,7 +1079,7 @@ function FlowchartContent() {
         }))
       }
     },
-    [screenToFlowPosition, setNodes, onNodeUpdate]
+    [screenToFlowPosition, setNodes, onNodeUpdate, takeSnapshot, simulationPath]
   )
 
   
@@ -523,57 +1088,36 @@ function FlowchartContent() {
   useEffect(() => {
     const loadExistingData = async () => {
       try {
-        const savedData = loadFlowchartData()
+        const savedData = await loadFlowchartData()
         if (savedData) {
-          // Update node data with onUpdate callback
-          const nodesWithCallbacks = savedData.nodes.map(node => ({
-            ...node,
-            data: {
-              ...node.data,
-              onUpdate: onNodeUpdate,
-            }
-          }))
-          
-          setNodes(nodesWithCallbacks)
-          setEdges(savedData.edges)
-          setFlowchartMetadata({
-            title: savedData.title,
-            description: savedData.description || "",
-            createdAt: savedData.createdAt,
-            updatedAt: savedData.updatedAt,
-          })
+          applyFlowchartData(savedData)
           setCurrentFlowchartId(savedData.id)
-          
-          // Update nodeId counter to avoid conflicts
-          const maxId = Math.max(
-            ...savedData.nodes
-              .map(node => {
-                const match = node.id.match(/-(\d+)$/)
-                return match ? parseInt(match[1], 10) : 0
-              })
-              .filter(id => !isNaN(id))
-          )
-          nodeId.current = maxId + 1
-          
           setSaveStatus('saved')
         }
       } catch (error) {
         console.error('Failed to load flowchart data:', error)
         setSaveError(error instanceof FlowchartStorageError ? error.message : 'Failed to load flowchart')
         setSaveStatus('error')
+      } finally {
+        await refreshLibrary()
       }
     }
 
     loadExistingData()
-  }, [setNodes, setEdges, onNodeUpdate])
+  }, [applyFlowchartData, refreshLibrary])
 
 
   // Clear current flowchart
-  const clearFlowchartHandler = useCallback(() => {
+  const clearFlowchartHandler = useCallback(async () => {
     try {
-      clearFlowchartData()
+      // A pending auto-save would bring the cleared flowchart back
+      cancelAutoSave()
+      await clearFlowchartData(currentFlowchartId)
+      await refreshLibrary()
       setNodes([])
       setEdges([])
+      setSimulationPath(null)
+      setScenarios([])
       setFlowchartMetadata({
         title: "Untitled Flowchart",
         description: "",
@@ -581,15 +1125,66 @@ function FlowchartContent() {
         updatedAt: new Date(),
       })
       setCurrentFlowchartId(undefined)
+      setFlowchartTrail([])
       setSaveStatus('saved')
       setSaveError(null)
+      clearHistory()
       nodeId.current = 0
     } catch (error) {
       console.error('Failed to clear flowchart:', error)
       setSaveError('Failed to clear flowchart')
       setSaveStatus('error')
     }
-  }, [setNodes, setEdges])
+  }, [setNodes, setEdges, currentFlowchartId, clearHistory, refreshLibrary])
+
+  // Rename a flowchart from the library panel
+  const renameFlowchartHandler = useCallback(async (id: string, title: string) => {
+    if (id === currentFlowchartId) {
+      // The open flowchart is renamed through its metadata so auto-save picks it up
+      setFlowchartMetadata((prev) => ({ ...prev, title, updatedAt: new Date() }))
+      return
+    }
+
+    try {
+      await renameFlowchart(id, title)
+      await refreshLibrary()
+    } catch (error) {
+      console.error('Failed to rename flowchart:', error)
+      setSaveError(error instanceof FlowchartStorageError ? error.message : 'Failed to rename flowchart')
+      setSaveStatus('error')
+    }
+  }, [currentFlowchartId, refreshLibrary])
+
+  // Duplicate a flowchart from the library panel
+  const duplicateFlowchartHandler = useCallback(async (id: string) => {
+    try {
+      // Make sure the copy includes edits that are still waiting to be saved
+      await flushAutoSave()
+      await duplicateFlowchart(id)
+      await refreshLibrary()
+    } catch (error) {
+      console.error('Failed to duplicate flowchart:', error)
+      setSaveError(error instanceof FlowchartStorageError ? error.message : 'Failed to duplicate flowchart')
+      setSaveStatus('error')
+    }
+  }, [refreshLibrary])
+
+  // Delete a flowchart from the library panel
+  const deleteFlowchartHandler = useCallback(async (id: string) => {
+    if (id === currentFlowchartId) {
+      await clearFlowchartHandler()
+      return
+    }
+
+    try {
+      await deleteFlowchart(id)
+      await refreshLibrary()
+    } catch (error) {
+      console.error('Failed to delete flowchart:', error)
+      setSaveError(error instanceof FlowchartStorageError ? error.message : 'Failed to delete flowchart')
+      setSaveStatus('error')
+    }
+  }, [currentFlowchartId, clearFlowchartHandler, refreshLibrary])
 
   // Auto-save when flowchart data changes
   useEffect(() => {
@@ -599,6 +1194,20 @@ function FlowchartContent() {
     }
   }, [nodes, edges, flowchartMetadata, performAutoSave])
 
+  // Copy, cut and paste use the native clipboard events so no permission prompt is needed
+  useEffect(() => {
+    document.addEventListener("copy", onCopy)
+    document.addEventListener("cut", onCut)
+    document.addEventListener("paste", onPaste)
+    return () => {
+      document.removeEventListener("copy", onCopy)
+      document.removeEventListener("cut", onCut)
+      document.removeEventListener("paste", onPaste)
+    }
+  }, [onCopy, onCut, onPaste])
+
+  // Shortcuts are handled on the document only; also passing onKeyDown to
+  // ReactFlow would run them twice while the canvas has focus
   useEffect(() => {
     document.addEventListener("keydown", onKeyDown as unknown as EventListener)
     
@@ -635,7 +1244,16 @@ function FlowchartContent() {
         saveStatus={saveStatus}
         saveError={saveError}
         currentFlowchartId={currentFlowchartId}
+        recentFlowcharts={recentFlowcharts}
+        onOpenFlowchart={openLibraryFlowchart}
+        onRenameFlowchart={renameFlowchartHandler}
+        onDuplicateFlowchart={duplicateFlowchartHandler}
+        onDeleteFlowchart={deleteFlowchartHandler}
         onManualSave={performAutoSave}
+        onUndo={undo}
+        onRedo={redo}
+        canUndo={canUndo}
+        canRedo={canRedo}
         onNewFlowchart={createNewFlowchartHandler}
         onClearFlowchart={clearFlowchartHandler}
         onZoomIn={handleZoomIn}
@@ -643,6 +1261,15 @@ function FlowchartContent() {
         onZoomToFit={handleZoomToFit}
         onZoomReset={handleZoomReset}
         onCenterView={handleCenterView}
+        layoutDirection={layoutDirection}
+        onLayoutDirectionChange={handleLayoutDirectionChange}
+        onAutoLayout={() => applyAutoLayout()}
+        onImportMermaid={importMermaidHandler}
+        onExportImage={exportImageHandler}
+        onSelectValidationIssue={focusValidationIssue}
+        onUpdateNode={onNodeUpdate}
+        onRunSimulation={startSimulation}
+        isSimulating={!!simulationPath}
         onShowKeyboardShortcuts={() => setShowKeyboardShortcuts(true)}
       />
 
@@ -667,13 +1294,43 @@ function FlowchartContent() {
             </div>
           </div>
         )}
+        {/* Way back to the parent flowcharts of a linked subprocess */}
+        {flowchartTrail.length > 0 && (
+          <FlowchartBreadcrumb
+            trail={flowchartTrail}
+            currentTitle={flowchartMetadata.title}
+            flowcharts={recentFlowcharts}
+            onNavigate={openTrailFlowchart}
+          />
+        )}
+        {/* Walkthrough Controls */}
+        {simulationPath && (
+          <FlowchartSimulationPanel
+            path={simulationPath}
+            startNodes={getSimulationStartNodes(nodes)}
+            choices={simulationState.choices}
+            isDecision={simulationState.isDecision}
+            outcome={simulationState.outcome}
+            scenarios={scenarios}
+            onStart={startSimulationAt}
+            onChoose={chooseSimulationStep}
+            onBack={stepSimulationBack}
+            onRestart={startSimulation}
+            onExit={stopSimulation}
+            onExportScenarios={exportScenarios}
+            onClearScenarios={() => setScenarios([])}
+          />
+        )}
         <ReactFlow
-          nodes={nodes}
-          edges={edges}
+          nodes={displayedNodes}
+          edges={displayedEdges}
           nodeTypes={nodeTypes}
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
           onConnect={onConnect}
+          onNodeDragStart={onNodeDragStart}
+          onNodeDragStop={onNodeDragStop}
+          onNodeDoubleClick={onNodeDoubleClick}
           fitView
           snapToGrid
           snapGrid={[15, 15]}
@@ -688,7 +1345,6 @@ function FlowchartContent() {
           panOnDrag={[1, 2]}
           selectNodesOnDrag={false}
           attributionPosition="bottom-left"
-          onKeyDown={onKeyDown}
           connectionLineStyle={{
             stroke: '#2563eb',
             strokeWidth: 2,
@@ -700,9 +1356,11 @@ function FlowchartContent() {
           nodeExtent={[[-2500, -2500], [2500, 2500]]}
           zoomActivationKeyCode="Control"
           preventScrolling={false}
-          elementsSelectable={true}
-          nodesConnectable={true}
-          nodesDraggable={true}
+          // Delete and Backspace go through deleteSelected, which keeps the steps of deleted lanes
+          deleteKeyCode={null}
+          elementsSelectable={!simulationPath}
+          nodesConnectable={!simulationPath}
+          nodesDraggable={!simulationPath}
           panOnScrollMode="free"
         >
           <Controls />
@@ -1,8 +1,19 @@
 import { useState, useEffect, useRef, type DragEvent } from "react"
-import { Play, Settings, HelpCircle, Circle, Square, FileText, Save, CheckCircle, AlertCircle, Clock, Plus, Trash2, ChevronDown, ZoomIn, ZoomOut, Maximize, RotateCcw, Target, Keyboard } from "lucide-react"
+import { Play, Settings, HelpCircle, Circle, Square, FileText, Save, CheckCircle, AlertCircle, Clock, Plus, Trash2, ChevronDown, ZoomIn, ZoomOut, Maximize, RotateCcw, Target, Keyboard, Undo2, Redo2, Network, FileInput, ImageDown, PlayCircle, ListChecks, Rows3, Columns3, ArrowLeftRight, Layers, Database, Hand, Hourglass } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { MermaidExporter } from "./MermaidExporter"
+import { MermaidImporter } from "./MermaidImporter"
+import { ImageExportDialog } from "./ImageExportDialog"
+import { TestCaseExportDialog } from "./TestCaseExportDialog"
+import { FlowchartValidationPanel } from "./FlowchartValidationPanel"
+import { RecentFlowchartsPanel } from "./RecentFlowchartsPanel"
 import { type Node, type Edge } from "reactflow"
+import { loadLinkedFlowcharts, type FlowchartSummary } from "@/lib/flowchartStorage"
+import { LINKED_FLOWCHART_NODE_TYPE, getLinkedFlowchartId } from "@/lib/flowchartLinks"
+import { type LayoutDirection } from "@/lib/flowchartLayout"
+import { type MermaidParseResult } from "@/lib/mermaidParser"
+import { type ImageExportOptions } from "@/lib/flowchartImageExport"
+import { isStartNode, type FlowchartIssue } from "@/lib/flowchartValidation"
 
 interface NodePaletteItem {
   type: string
@@ -72,6 +83,96 @@ const nodePalette: NodePaletteItem[] = [
       backgroundColor: "#f3f4f6",
       textColor: "#374151"
     }
+  },
+  {
+    type: "inputOutputNode",
+    label: "Input/Output",
+    icon: <ArrowLeftRight className="w-5 h-5" />,
+    description: "Data entering or leaving the process",
+    defaultData: {
+      label: "Input/Output",
+      backgroundColor: "#e0e7ff",
+      textColor: "#4338ca"
+    }
+  },
+  {
+    type: "documentNode",
+    label: "Document",
+    icon: <FileText className="w-5 h-5" />,
+    description: "Document or report",
+    defaultData: {
+      label: "Document",
+      backgroundColor: "#f3e8ff",
+      textColor: "#7e22ce"
+    }
+  },
+  {
+    type: "subprocessNode",
+    label: "Subprocess",
+    icon: <Layers className="w-5 h-5" />,
+    description: "Predefined process, optionally linked to another flowchart",
+    defaultData: {
+      label: "Subprocess",
+      backgroundColor: "#cffafe",
+      textColor: "#0e7490"
+    }
+  },
+  {
+    type: "databaseNode",
+    label: "Database",
+    icon: <Database className="w-5 h-5" />,
+    description: "Stored data",
+    defaultData: {
+      label: "Database",
+      backgroundColor: "#ffedd5",
+      textColor: "#c2410c"
+    }
+  },
+  {
+    type: "manualOperationNode",
+    label: "Manual Operation",
+    icon: <Hand className="w-5 h-5" />,
+    description: "Step done by hand",
+    defaultData: {
+      label: "Manual Operation",
+      backgroundColor: "#fce7f3",
+      textColor: "#be185d"
+    }
+  },
+  {
+    type: "delayNode",
+    label: "Delay",
+    icon: <Hourglass className="w-5 h-5" />,
+    description: "Waiting time",
+    defaultData: {
+      label: "Delay",
+      backgroundColor: "#ecfccb",
+      textColor: "#4d7c0f"
+    }
+  },
+  {
+    type: "swimlaneNode",
+    label: "Horizontal Lane",
+    icon: <Rows3 className="w-5 h-5" />,
+    description: "Lane for the steps one team or role owns",
+    defaultData: {
+      label: "Lane",
+      orientation: "horizontal",
+      backgroundColor: "#f1f5f9",
+      textColor: "#334155"
+    }
+  },
+  {
+    type: "swimlaneNode",
+    label: "Vertical Lane",
+    icon: <Columns3 className="w-5 h-5" />,
+    description: "Lane for the steps one team or role owns",
+    defaultData: {
+      label: "Lane",
+      orientation: "vertical",
+      backgroundColor: "#f1f5f9",
+      textColor: "#334155"
+    }
   }
 ]
 
@@ -93,7 +194,16 @@ interface FlowchartSidebarProps {
   saveStatus?: 'saved' | 'saving' | 'error' | 'unsaved'
   saveError?: string | null
   currentFlowchartId?: string
+  recentFlowcharts?: FlowchartSummary[]
+  onOpenFlowchart?: (id: string) => void
+  onRenameFlowchart?: (id: string, title: string) => void
+  onDuplicateFlowchart?: (id: string) => void
+  onDeleteFlowchart?: (id: string) => void
   onManualSave?: () => Promise<void>
+  onUndo?: () => void
+  onRedo?: () => void
+  canUndo?: boolean
+  canRedo?: boolean
   onNewFlowchart?: (template?: 'empty' | 'basic' | 'decision') => void
   onClearFlowchart?: () => void
   onZoomIn?: () => void
@@ -101,6 +211,15 @@ interface FlowchartSidebarProps {
   onZoomToFit?: () => void
   onZoomReset?: () => void
   onCenterView?: () => void
+  layoutDirection?: LayoutDirection
+  onLayoutDirectionChange?: (direction: LayoutDirection) => void
+  onAutoLayout?: () => void
+  onImportMermaid?: (result: MermaidParseResult) => void
+  onExportImage?: (options: ImageExportOptions) => Promise<void>
+  onSelectValidationIssue?: (issue: FlowchartIssue) => void
+  onUpdateNode?: (id: string, updates: object) => void
+  onRunSimulation?: () => void
+  isSimulating?: boolean
   onShowKeyboardShortcuts?: () => void
 }
 
@@ -115,7 +234,16 @@ export function FlowchartSidebar({
   saveStatus = 'saved',
   saveError = null,
   currentFlowchartId,
+  recentFlowcharts = [],
+  onOpenFlowchart,
+  onRenameFlowchart,
+  onDuplicateFlowchart,
+  onDeleteFlowchart,
   onManualSave,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
   onNewFlowchart,
   onClearFlowchart,
   onZoomIn,
@@ -123,15 +251,48 @@ export function FlowchartSidebar({
   onZoomToFit,
   onZoomReset,
   onCenterView,
+  layoutDirection = 'TD',
+  onLayoutDirectionChange,
+  onAutoLayout,
+  onImportMermaid,
+  onExportImage,
+  onSelectValidationIssue,
+  onUpdateNode,
+  onRunSimulation,
+  isSimulating = false,
   onShowKeyboardShortcuts
 }: FlowchartSidebarProps) {
   const [draggedItem, setDraggedItem] = useState<string | null>(null)
   const [showMermaidExporter, setShowMermaidExporter] = useState(false)
+  const [showMermaidImporter, setShowMermaidImporter] = useState(false)
+  const [showImageExport, setShowImageExport] = useState(false)
+  const [showTestCaseExport, setShowTestCaseExport] = useState(false)
   const [isManualSaving, setIsManualSaving] = useState(false)
   const [showClearConfirm, setShowClearConfirm] = useState(false)
   const [showNewFlowchartMenu, setShowNewFlowchartMenu] = useState(false)
   const newFlowchartMenuRef = useRef<HTMLDivElement>(null)
 
+  // A single selected subprocess can be linked to another flowchart
+  const selectedNodes = nodes.filter(node => node.selected)
+  const selectedSubprocess = selectedNodes.length === 1 && selectedNodes[0].type === LINKED_FLOWCHART_NODE_TYPE
+    ? selectedNodes[0]
+    : undefined
+  const linkedFlowchartId = selectedSubprocess ? getLinkedFlowchartId(selectedSubprocess) : undefined
+
+  const handleLinkFlowchart = (flowchartId: string) => {
+    if (!selectedSubprocess || !onUpdateNode) return
+
+    const flowchart = recentFlowcharts.find(item => item.id === flowchartId)
+    const label = String(selectedSubprocess.data?.label || '').trim()
+    const linkedTitle = recentFlowcharts.find(item => item.id === linkedFlowchartId)?.title
+    // Name the step after the flowchart unless it was given its own label
+    const keepLabel = !!label && label !== 'Subprocess' && label !== linkedTitle
+    onUpdateNode(selectedSubprocess.id, {
+      flowchartId: flowchart?.id,
+      ...(flowchart && !keepLabel ? { label: flowchart.title || 'Untitled Flowchart' } : {}),
+    })
+  }
+
   const handleDragStart = (event: DragEvent, item: NodePaletteItem) => {
     // Set drag data for the drop handler
     event.dataTransfer.setData("application/reactflow", item.type)
@@ -139,7 +300,7 @@ export function FlowchartSidebar({
     event.dataTransfer.effectAllowed = "move"
     
     // Track which item is being dragged for visual feedback
-    setDraggedItem(item.type)
+    setDraggedItem(item.label)
     
     // Call the optional callback
     onNodeDragStart?.(event, item.type, item.defaultData)
@@ -236,7 +397,7 @@ export function FlowchartSidebar({
   }, [showNewFlowchartMenu])
 
   return (
-    <div className="w-80 bg-white border-r border-gray-200 flex-shrink-0 flex flex-col" role="complementary" aria-label="Flowchart editor sidebar">
+    <div className="w-80 bg-white border-r border-gray-200 flex-shrink-0 flex flex-col overflow-y-auto" role="complementary" aria-label="Flowchart editor sidebar">
       {/* Header */}
       <div className="p-4 border-b border-gray-100">
         <div className="flex items-center justify-between">
@@ -297,6 +458,36 @@ export function FlowchartSidebar({
       <div className="p-4 border-b border-gray-100">
         <h3 className="text-sm font-medium text-gray-700 mb-3">Flowchart Actions</h3>
         <div className="space-y-2">
+          {/* Undo/Redo */}
+          {(onUndo || onRedo) && (
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                onClick={onUndo}
+                disabled={!canUndo}
+                size="sm"
+                variant="outline"
+                className="flex items-center gap-1 text-xs"
+                title="Undo (Ctrl/Cmd + Z)"
+                aria-label="Undo last change"
+              >
+                <Undo2 className="w-3 h-3" />
+                Undo
+              </Button>
+              <Button
+                onClick={onRedo}
+                disabled={!canRedo}
+                size="sm"
+                variant="outline"
+                className="flex items-center gap-1 text-xs"
+                title="Redo (Ctrl/Cmd + Shift + Z)"
+                aria-label="Redo last undone change"
+              >
+                <Redo2 className="w-3 h-3" />
+                Redo
+              </Button>
+            </div>
+          )}
+
           {/* New Flowchart Dropdown */}
           <div className="relative" ref={newFlowchartMenuRef}>
             <Button
@@ -386,6 +577,18 @@ export function FlowchartSidebar({
         </div>
       </div>
 
+      {/* Flowchart Library */}
+      {onOpenFlowchart && onRenameFlowchart && onDuplicateFlowchart && onDeleteFlowchart && (
+        <RecentFlowchartsPanel
+          flowcharts={recentFlowcharts}
+          currentFlowchartId={currentFlowchartId}
+          onOpen={onOpenFlowchart}
+          onRename={onRenameFlowchart}
+          onDuplicate={onDuplicateFlowchart}
+          onDelete={onDeleteFlowchart}
+        />
+      )}
+
       {/* Flowchart Metadata */}
       {flowchartMetadata && onUpdateMetadata && (
         <div className="p-4 border-b border-gray-100">
@@ -490,6 +693,69 @@ export function FlowchartSidebar({
         </Button>
       </div>
 
+      {/* Auto Layout */}
+      {onAutoLayout && (
+        <div className="p-4 border-b border-gray-100">
+          <h3 className="text-sm font-medium text-gray-700 mb-3">Layout</h3>
+          <div className="flex gap-2">
+            <select
+              value={layoutDirection}
+              onChange={(e) => onLayoutDirectionChange?.(e.target.value as LayoutDirection)}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-xs"
+              aria-label="Layout direction"
+            >
+              <option value="TD">Top to Bottom (TD)</option>
+              <option value="TB">Top to Bottom (TB)</option>
+              <option value="BT">Bottom to Top (BT)</option>
+              <option value="RL">Right to Left (RL)</option>
+              <option value="LR">Left to Right (LR)</option>
+            </select>
+            <Button
+              onClick={onAutoLayout}
+              disabled={nodes.length === 0}
+              size="sm"
+              variant="outline"
+              className="flex items-center gap-1 text-xs"
+              title="Auto layout (Ctrl/Cmd + Shift + L)"
+              aria-label="Automatically lay out the flowchart"
+            >
+              <Network className="w-3 h-3" />
+              Auto Layout
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Walkthrough */}
+      {onRunSimulation && (
+        <div className="p-4 border-b border-gray-100">
+          <h3 className="text-sm font-medium text-gray-700 mb-3">Walkthrough</h3>
+          <Button
+            onClick={onRunSimulation}
+            disabled={isSimulating || !nodes.some(isStartNode)}
+            size="sm"
+            variant="outline"
+            className="w-full flex items-center gap-2"
+            title="Step through the flowchart from its start node, choosing a branch at each decision"
+            aria-label="Run the flowchart step by step"
+          >
+            <PlayCircle className="w-4 h-4" />
+            {isSimulating ? 'Running…' : 'Run'}
+          </Button>
+          {!isSimulating && nodes.length > 0 && !nodes.some(isStartNode) && (
+            <p className="text-xs text-gray-500 mt-2">Add a start node to run the flowchart</p>
+          )}
+        </div>
+      )}
+
+      {/* Validation */}
+      <FlowchartValidationPanel
+        nodes={nodes}
+        edges={edges}
+        flowcharts={recentFlowcharts}
+        onSelectIssue={onSelectValidationIssue}
+      />
+
       {/* Selection Status */}
       {(selectedNodesCount > 0 || selectedEdgesCount > 0) && (
         <div className="p-4 border-b border-gray-100 bg-blue-50" role="status" aria-live="polite">
@@ -502,7 +768,36 @@ export function FlowchartSidebar({
               <div>• {selectedEdgesCount} connection{selectedEdgesCount !== 1 ? 's' : ''} selected</div>
             )}
             <div className="text-blue-500 mt-2">Press Delete to remove selected items</div>
+            {selectedNodesCount > 0 && (
+              <div className="text-blue-500">Ctrl+C to copy, Ctrl+D to duplicate</div>
+            )}
           </div>
+          {selectedSubprocess && onUpdateNode && !isSimulating && (
+            <div className="mt-3">
+              <label htmlFor="linked-flowchart" className="block text-xs font-medium text-blue-700 mb-1">
+                Linked flowchart
+              </label>
+              <select
+                id="linked-flowchart"
+                value={linkedFlowchartId || ''}
+                onChange={(e) => handleLinkFlowchart(e.target.value)}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md text-xs bg-white"
+              >
+                <option value="">None</option>
+                {linkedFlowchartId && !recentFlowcharts.some(item => item.id === linkedFlowchartId) && (
+                  <option value={linkedFlowchartId}>Missing flowchart</option>
+                )}
+                {recentFlowcharts
+                  .filter(item => item.id !== currentFlowchartId)
+                  .map(item => (
+                    <option key={item.id} value={item.id}>{item.title || 'Untitled Flowchart'}</option>
+                  ))}
+              </select>
+              {linkedFlowchartId && (
+                <div className="text-xs text-blue-500 mt-1">Double-click the node to open the flowchart</div>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -512,12 +807,12 @@ export function FlowchartSidebar({
         <div className="space-y-2" role="group" aria-label="Flowchart node types">
           {nodePalette.map((item) => (
             <div
-              key={item.type}
+              key={item.label}
               draggable
               onDragStart={(event) => handleDragStart(event, item)}
               onDragEnd={handleDragEnd}
               className={`flex items-center gap-3 p-3 rounded-lg border transition-colors ${
-                draggedItem === item.type
+                draggedItem === item.label
                   ? "bg-blue-50 border-blue-300 opacity-50"
                   : "bg-gray-50 border-gray-200 cursor-grab hover:bg-gray-100 hover:border-gray-300 active:cursor-grabbing focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               }`}
@@ -547,9 +842,21 @@ export function FlowchartSidebar({
         </div>
       </div>
 
-      {/* Export Section */}
+      {/* Import & Export Section */}
       <div className="p-4 border-t border-gray-100">
-        <h4 className="text-sm font-medium text-gray-700 mb-3">Export</h4>
+        <h4 className="text-sm font-medium text-gray-700 mb-3">Import & Export</h4>
+        {onImportMermaid && (
+          <Button
+            onClick={() => setShowMermaidImporter(true)}
+            className="w-full flex items-center gap-2 mb-2"
+            variant="outline"
+            title="Create a flowchart from Mermaid.js flowchart syntax"
+            aria-label="Import flowchart from Mermaid.js format"
+          >
+            <FileInput className="w-4 h-4" />
+            Import from Mermaid.js
+          </Button>
+        )}
         <Button
           onClick={() => setShowMermaidExporter(true)}
           disabled={nodes.length === 0}
@@ -561,6 +868,30 @@ export function FlowchartSidebar({
           <FileText className="w-4 h-4" />
           Export to Mermaid.js
         </Button>
+        {onExportImage && (
+          <Button
+            onClick={() => setShowImageExport(true)}
+            disabled={nodes.length === 0}
+            className="w-full flex items-center gap-2 mt-2"
+            variant="outline"
+            title="Export the canvas or the selection as an SVG or PNG image"
+            aria-label="Export flowchart as an image"
+          >
+            <ImageDown className="w-4 h-4" />
+            Export as Image
+          </Button>
+        )}
+        <Button
+          onClick={() => setShowTestCaseExport(true)}
+          disabled={!nodes.some(isStartNode)}
+          className="w-full flex items-center gap-2 mt-2"
+          variant="outline"
+          title="List every path through the decisions as a CSV or Markdown test-case table"
+          aria-label="Generate test cases from the flowchart paths"
+        >
+          <ListChecks className="w-4 h-4" />
+          Generate Test Cases
+        </Button>
         {nodes.length === 0 && (
           <p className="text-xs text-gray-500 mt-2">
             Add nodes to your flowchart to enable export
@@ -574,6 +905,7 @@ export function FlowchartSidebar({
         <ul className="text-xs text-gray-600 space-y-1">
           <li>• Drag nodes from the palette to the canvas</li>
           <li>• Double-click nodes to edit labels</li>
+          <li>• Double-click a linked subprocess to open its flowchart</li>
           <li>• Connect nodes by dragging from handles</li>
           <li>• Press Delete to remove selected items</li>
         </ul>
@@ -585,6 +917,10 @@ export function FlowchartSidebar({
           <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Shift+Drag</kbd> Box select</li>
           <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Esc</kbd> Deselect all</li>
           <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Del</kbd> Delete selected</li>
+          <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Ctrl+Z</kbd> Undo</li>
+          <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Ctrl+Shift+Z</kbd> Redo</li>
+          <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Ctrl+C/X/V</kbd> Copy, cut, paste</li>
+          <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Ctrl+D</kbd> Duplicate selected</li>
         </ul>
         
         <h4 className="text-sm font-medium text-gray-700 mb-2 mt-3">Zoom & Pan</h4>
@@ -594,6 +930,7 @@ export function FlowchartSidebar({
           <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Ctrl+0</kbd> Reset zoom</li>
           <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Ctrl+F</kbd> Fit to view</li>
           <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Ctrl+Shift+C</kbd> Center view</li>
+          <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Ctrl+Shift+L</kbd> Auto layout</li>
           <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Ctrl+Wheel</kbd> Smooth zoom</li>
           <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Click+Drag</kbd> Pan canvas</li>
           <li>• <kbd className="px-1 py-0.5 bg-gray-200 rounded text-xs">Ctrl+Shift+↑↓←→</kbd> Pan with keys</li>
@@ -607,7 +944,38 @@ export function FlowchartSidebar({
         nodes={nodes}
         edges={edges}
         metadata={flowchartMetadata}
+        direction={layoutDirection}
+        loadSubFlowcharts={loadLinkedFlowcharts}
       />
+
+      {/* Image Export Modal */}
+      {onExportImage && (
+        <ImageExportDialog
+          isOpen={showImageExport}
+          onClose={() => setShowImageExport(false)}
+          onExport={onExportImage}
+          selectedNodesCount={selectedNodesCount}
+          hasTitle={!!flowchartMetadata?.title?.trim()}
+        />
+      )}
+
+      {/* Test Case Export Modal */}
+      <TestCaseExportDialog
+        isOpen={showTestCaseExport}
+        onClose={() => setShowTestCaseExport(false)}
+        nodes={nodes}
+        edges={edges}
+        title={flowchartMetadata?.title}
+      />
+
+      {/* Mermaid Importer Modal */}
+      {onImportMermaid && (
+        <MermaidImporter
+          isOpen={showMermaidImporter}
+          onClose={() => setShowMermaidImporter(false)}
+          onImport={onImportMermaid}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
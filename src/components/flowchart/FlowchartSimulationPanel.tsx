@@ -0,0 +1,179 @@
+import { X, PlayCircle, ArrowRight, Undo2, RotateCcw, Download, Trash2, CheckCircle, AlertTriangle } from "lucide-react"
+import { type Node } from "reactflow"
+import { Button } from "@/components/ui/button"
+import {
+  describeScenario,
+  type FlowchartScenario,
+  type ScenarioOutcome,
+  type SimulationChoice,
+  type SimulationStep,
+} from "@/lib/flowchartSimulation"
+
+interface FlowchartSimulationPanelProps {
+  path: SimulationStep[]
+  startNodes: Node[]
+  choices: SimulationChoice[]
+  isDecision: boolean
+  outcome?: ScenarioOutcome
+  scenarios: FlowchartScenario[]
+  onStart: (nodeId: string) => void
+  onChoose: (choice: SimulationChoice) => void
+  onBack: () => void
+  onRestart: () => void
+  onExit: () => void
+  onExportScenarios: () => void
+  onClearScenarios: () => void
+}
+
+// Floating controls for walking through the flowchart one step at a time
+export function FlowchartSimulationPanel({
+  path,
+  startNodes,
+  choices,
+  isDecision,
+  outcome,
+  scenarios,
+  onStart,
+  onChoose,
+  onBack,
+  onRestart,
+  onExit,
+  onExportScenarios,
+  onClearScenarios,
+}: FlowchartSimulationPanelProps) {
+  const current = path[path.length - 1]
+
+  return (
+    <div
+      className="absolute top-4 left-4 z-10 w-72 bg-white border border-gray-200 rounded-lg shadow-lg flex flex-col max-h-[calc(100%-2rem)]"
+      role="region"
+      aria-label="Flowchart walkthrough"
+    >
+      <div className="flex items-center justify-between p-3 border-b border-gray-100">
+        <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+          <PlayCircle className="w-4 h-4 text-green-600" />
+          Run Mode
+        </h3>
+        <Button variant="ghost" size="icon" onClick={onExit} className="h-7 w-7" title="Exit run mode (Esc)" aria-label="Exit run mode">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="p-3 border-b border-gray-100 space-y-2" aria-live="polite">
+        {!current ? (
+          <>
+            <p className="text-xs text-gray-500">Choose where to start</p>
+            {startNodes.map(node => (
+              <Button key={node.id} onClick={() => onStart(node.id)} size="sm" variant="outline" className="w-full justify-start text-xs">
+                {node.data?.label || node.id}
+              </Button>
+            ))}
+          </>
+        ) : (
+          <>
+            <div className="text-xs text-gray-500">Step {path.length}</div>
+            <div className="text-sm font-medium text-gray-900">{current.label}</div>
+
+            {/* Current Step */}
+            {outcome === 'end' && (
+              <div className="flex items-center gap-2 text-xs text-green-700">
+                <CheckCircle className="w-4 h-4" />
+                Reached the end; the path was recorded
+              </div>
+            )}
+            {outcome === 'dead-end' && (
+              <div className="flex items-center gap-2 text-xs text-yellow-700">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                No outgoing connection; the path was recorded as incomplete
+              </div>
+            )}
+            {!outcome && (
+              <div className={isDecision ? "grid grid-cols-2 gap-2" : "space-y-2"}>
+                {choices.map(choice => (
+                  <Button
+                    key={choice.edgeId}
+                    onClick={() => onChoose(choice)}
+                    size="sm"
+                    variant={isDecision ? "outline" : "default"}
+                    className="w-full flex items-center gap-1 text-xs"
+                  >
+                    {!isDecision && <ArrowRight className="w-3 h-3" />}
+                    <span className="truncate">{isDecision ? choice.label : `Next: ${choice.label}`}</span>
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2 pt-1">
+              <Button onClick={onBack} disabled={path.length <= 1} size="sm" variant="ghost" className="flex items-center gap-1 text-xs">
+                <Undo2 className="w-3 h-3" />
+                Back
+              </Button>
+              <Button onClick={onRestart} size="sm" variant="ghost" className="flex items-center gap-1 text-xs">
+                <RotateCcw className="w-3 h-3" />
+                {outcome ? 'Run Again' : 'Restart'}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Visited Path */}
+      {path.length > 1 && (
+        <ol className="p-3 border-b border-gray-100 text-xs text-gray-600 space-y-1 max-h-32 overflow-y-auto list-decimal list-inside">
+          {path.map((step, index) => (
+            <li key={`${step.nodeId}-${index}`}>
+              {step.label}
+              {step.choice && <span className="text-blue-600"> → {step.choice}</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Recorded Scenarios */}
+      <div className="p-3 flex-1 min-h-0 flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-medium text-gray-700">Scenarios ({scenarios.length})</span>
+          <div className="flex items-center gap-1">
+            <Button
+              onClick={onExportScenarios}
+              disabled={scenarios.length === 0}
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              title="Download the scenario list as Markdown"
+              aria-label="Export scenarios"
+            >
+              <Download className="w-3 h-3" />
+            </Button>
+            <Button
+              onClick={onClearScenarios}
+              disabled={scenarios.length === 0}
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              title="Clear recorded scenarios"
+              aria-label="Clear scenarios"
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+        {scenarios.length === 0 ? (
+          <p className="text-xs text-gray-500">Paths are recorded when a walkthrough stops</p>
+        ) : (
+          <ul className="space-y-1 overflow-y-auto text-xs text-gray-700">
+            {scenarios.map(scenario => (
+              <li key={scenario.id} className="flex items-start gap-1">
+                <span className="text-gray-400">{scenario.id}.</span>
+                <span className={scenario.outcome === 'dead-end' ? 'text-yellow-700' : undefined}>
+                  {describeScenario(scenario)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { useMemo, useState } from "react"
+import { type Node, type Edge } from "reactflow"
+import { AlertCircle, AlertTriangle, CheckCircle, ChevronDown } from "lucide-react"
+import { validateFlowchart, type FlowchartIssue } from "@/lib/flowchartValidation"
+import { type FlowchartSummary } from "@/lib/flowchartStorage"
+
+interface FlowchartValidationPanelProps {
+  nodes: Node[]
+  edges: Edge[]
+  // Library listing used to check links to other flowcharts
+  flowcharts?: FlowchartSummary[]
+  onSelectIssue?: (issue: FlowchartIssue) => void
+}
+
+export function FlowchartValidationPanel({ nodes, edges, flowcharts, onSelectIssue }: FlowchartValidationPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(true)
+
+  const libraryIds = useMemo(() => (flowcharts ? new Set(flowcharts.map(flowchart => flowchart.id)) : undefined), [flowcharts])
+  const issues = useMemo(() => validateFlowchart(nodes, edges, { libraryIds }), [nodes, edges, libraryIds])
+  const errorCount = issues.filter(issue => issue.severity === 'error').length
+  const warningCount = issues.length - errorCount
+
+  return (
+    <div className="p-4 border-b border-gray-100">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-sm font-medium text-gray-700"
+        aria-expanded={isExpanded}
+      >
+        <span>Validation</span>
+        <span className="flex items-center gap-2 text-xs font-normal">
+          {errorCount > 0 && <span className="text-red-600">{errorCount} error{errorCount !== 1 ? 's' : ''}</span>}
+          {warningCount > 0 && <span className="text-yellow-600">{warningCount} warning{warningCount !== 1 ? 's' : ''}</span>}
+          <ChevronDown className={`w-4 h-4 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3">
+          {nodes.length === 0 ? (
+            <p className="text-xs text-gray-500">Add nodes to validate the flowchart</p>
+          ) : issues.length === 0 ? (
+            <div className="flex items-center gap-2 text-xs text-green-700">
+              <CheckCircle className="w-4 h-4" />
+              No issues found
+            </div>
+          ) : (
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {issues.map(issue => (
+                <li key={issue.id}>
+                  <button
+                    onClick={() => onSelectIssue?.(issue)}
+                    disabled={issue.nodeIds.length === 0}
+                    className="w-full flex items-start gap-2 p-2 rounded-md text-left text-xs hover:bg-gray-50 disabled:hover:bg-transparent disabled:cursor-default"
+                    title={issue.nodeIds.length > 0 ? 'Select and center the affected node(s)' : undefined}
+                  >
+                    {issue.severity === 'error' ? (
+                      <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                    ) : (
+                      <AlertTriangle className="w-4 h-4 text-yellow-600 flex-shrink-0" />
+                    )}
+                    <span className="text-gray-700">{issue.message}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+import { useState, useCallback, useEffect } from "react"
+import { X, ImageDown, Download, AlertTriangle, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  DEFAULT_IMAGE_EXPORT_OPTIONS,
+  type ImageExportFormat,
+  type ImageExportOptions
+} from "@/lib/flowchartImageExport"
+
+interface ImageExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onExport: (options: ImageExportOptions) => Promise<void>
+  selectedNodesCount: number
+  hasTitle: boolean
+}
+
+export function ImageExportDialog({
+  isOpen,
+  onClose,
+  onExport,
+  selectedNodesCount,
+  hasTitle
+}: ImageExportDialogProps) {
+  const [options, setOptions] = useState<ImageExportOptions>(DEFAULT_IMAGE_EXPORT_OPTIONS)
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  // Default to exporting the selection when there is one
+  useEffect(() => {
+    if (isOpen) {
+      setOptions(prev => ({ ...prev, selectionOnly: selectedNodesCount > 0 }))
+      setExportError(null)
+    }
+  }, [isOpen, selectedNodesCount])
+
+  const updateOption = useCallback(<K extends keyof ImageExportOptions>(key: K, value: ImageExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }))
+  }, [])
+
+  const handleExport = useCallback(async () => {
+    try {
+      setIsExporting(true)
+      setExportError(null)
+      await onExport(options)
+      onClose()
+    } catch (error) {
+      console.error("Failed to export image:", error)
+      setExportError(error instanceof Error ? error.message : "Failed to export image")
+    } finally {
+      setIsExporting(false)
+    }
+  }, [onExport, onClose, options])
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <ImageDown className="w-5 h-5" />
+              Export as Image
+            </CardTitle>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onClose}
+              className="h-8 w-8"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {exportError && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <div className="flex items-center gap-2 text-red-700 text-sm">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {exportError}
+              </div>
+            </div>
+          )}
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {/* Format */}
+          <div>
+            <label className="block text-sm font-medium mb-2">Format</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['png', 'svg'] as ImageExportFormat[]).map(format => (
+                <Button
+                  key={format}
+                  variant={options.format === format ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => updateOption('format', format)}
+                >
+                  {format.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {/* Scale */}
+            <div>
+              <label className="block text-sm font-medium mb-2">Scale</label>
+              <select
+                value={options.scale}
+                onChange={(e) => updateOption('scale', Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value={1}>1x</option>
+                <option value={2}>2x</option>
+                <option value={3}>3x</option>
+                <option value={4}>4x</option>
+              </select>
+            </div>
+
+            {/* Padding */}
+            <div>
+              <label className="block text-sm font-medium mb-2">Padding (px)</label>
+              <input
+                type="number"
+                min={0}
+                max={200}
+                value={options.padding}
+                onChange={(e) => updateOption('padding', Math.max(0, Number(e.target.value) || 0))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+          </div>
+
+          {/* Background */}
+          <div>
+            <label className="block text-sm font-medium mb-2">Background</label>
+            <select
+              value={options.background}
+              onChange={(e) => updateOption('background', e.target.value as ImageExportOptions['background'])}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="white">White</option>
+              <option value="transparent">Transparent</option>
+            </select>
+          </div>
+
+          {/* Include Options */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.includeTitle}
+                onChange={() => updateOption('includeTitle', !options.includeTitle)}
+                disabled={!hasTitle}
+                className="rounded"
+              />
+              <span className="text-sm">Add flowchart title as header</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.selectionOnly}
+                onChange={() => updateOption('selectionOnly', !options.selectionOnly)}
+                disabled={selectedNodesCount === 0}
+                className="rounded"
+              />
+              <span className="text-sm">
+                Selected nodes only{selectedNodesCount > 0 ? ` (${selectedNodesCount})` : ''}
+              </span>
+            </label>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex items-center justify-end gap-2 pt-4 border-t">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="flex items-center gap-2"
+            >
+              {isExporting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4" />
+              )}
+              Download {options.format.toUpperCase()}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -29,6 +29,13 @@ const keyboardShortcuts: KeyboardShortcut[] = [
     shortcuts: [
       { keys: ["Delete"], description: "Delete selected nodes/edges" },
       { keys: ["Backspace"], description: "Delete selected nodes/edges" },
+      { keys: ["Ctrl", "Z"], description: "Undo last change" },
+      { keys: ["Ctrl", "Shift", "Z"], description: "Redo last undone change" },
+      { keys: ["Ctrl", "Y"], description: "Redo last undone change" },
+      { keys: ["Ctrl", "C"], description: "Copy selected nodes" },
+      { keys: ["Ctrl", "X"], description: "Cut selected nodes" },
+      { keys: ["Ctrl", "V"], description: "Paste copied nodes" },
+      { keys: ["Ctrl", "D"], description: "Duplicate selected nodes" },
       { keys: ["Double-click"], description: "Edit node labels" },
       { keys: ["Enter"], description: "Confirm text editing" },
       { keys: ["Esc"], description: "Cancel text editing" },
@@ -42,6 +49,7 @@ const keyboardShortcuts: KeyboardShortcut[] = [
       { keys: ["Ctrl", "0"], description: "Reset zoom to 100%" },
       { keys: ["Ctrl", "F"], description: "Fit flowchart to view" },
       { keys: ["Ctrl", "Shift", "C"], description: "Center view on flowchart" },
+      { keys: ["Ctrl", "Shift", "L"], description: "Auto layout flowchart" },
       { keys: ["Ctrl", "Wheel"], description: "Smooth zoom with mouse wheel" },
       { keys: ["Ctrl", "Shift", "↑"], description: "Pan up" },
       { keys: ["Ctrl", "Shift", "↓"], description: "Pan down" },
@@ -1,6 +1,6 @@
-import { useState, useCallback, useEffect } from "react"
+import { useState, useCallback, useEffect, useMemo } from "react"
 import { type Node, type Edge } from "reactflow"
-import { X, Copy, Download, CheckCircle, AlertTriangle, Info } from "lucide-react"
+import { X, Copy, Download, CheckCircle, AlertTriangle, Info, Loader2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Textarea } from "@/components/ui/textarea"
@@ -9,8 +9,11 @@ import {
   validateFlowchartForMermaid,
   generateMermaidPreview,
   type FlowchartMetadata,
-  type MermaidConversionOptions
+  type MermaidConversionOptions,
+  type SubFlowchart
 } from "@/lib/mermaidConverter"
+import { renderMermaidDiagram } from "@/lib/mermaidRenderer"
+import { getLinkedFlowchartId } from "@/lib/flowchartLinks"
 
 // Component for displaying formatted Mermaid code with syntax highlighting
 function MermaidCodeDisplay({ code }: { code: string }) {
@@ -27,6 +30,8 @@ function MermaidCodeDisplay({ code }: { code: string }) {
       className = "text-purple-600 font-medium" // Title
     } else if (trimmedLine.startsWith('flowchart')) {
       className = "text-blue-600 font-semibold" // Flowchart declaration
+    } else if (trimmedLine.startsWith('subgraph') || trimmedLine === 'end') {
+      className = "text-purple-600 font-medium" // Subgraphs
     } else if (trimmedLine.startsWith('%%')) {
       className = "text-green-600 italic" // Comments
     } else if (trimmedLine.includes('-->')) {
@@ -84,6 +89,13 @@ interface MermaidExporterProps {
   nodes: Node[]
   edges: Edge[]
   metadata?: FlowchartMetadata
+  // Initial direction, e.g. the direction last used for auto layout
+  direction?: MermaidConversionOptions['direction']
+  // Converter and checks for other diagrams, e.g. the Interactive Board
+  convert?: typeof convertToMermaid
+  validate?: typeof validateFlowchartForMermaid
+  // Loads the flowcharts linked from subprocess nodes; offers inlining them when given
+  loadSubFlowcharts?: (nodes: Node[]) => Promise<Map<string, SubFlowchart>>
 }
 
 export function MermaidExporter({
@@ -91,30 +103,79 @@ export function MermaidExporter({
   onClose,
   nodes,
   edges,
-  metadata
+  metadata,
+  direction = 'TD',
+  convert = convertToMermaid,
+  validate = validateFlowchartForMermaid,
+  loadSubFlowcharts
 }: MermaidExporterProps) {
   const [mermaidCode, setMermaidCode] = useState("")
   const [copySuccess, setCopySuccess] = useState(false)
   const [conversionOptions, setConversionOptions] = useState<MermaidConversionOptions>({
     includeTitle: true,
     includeDescription: true,
-    direction: 'TD'
+    direction
   })
   const [validation, setValidation] = useState<{
     isValid: boolean
     warnings: string[]
     errors: string[]
   }>({ isValid: true, warnings: [], errors: [] })
+  const [renderedSvg, setRenderedSvg] = useState<string | null>(null)
+  const [renderError, setRenderError] = useState<string | null>(null)
+  const [isRendering, setIsRendering] = useState(false)
+  const [inlineSubFlowcharts, setInlineSubFlowcharts] = useState(false)
+  const [loadedSubFlowcharts, setLoadedSubFlowcharts] = useState<Map<string, SubFlowchart> | undefined>(undefined)
+  const linkedFlowchartIds = useMemo(
+    () => nodes.map(getLinkedFlowchartId).filter((id): id is string => !!id),
+    [nodes]
+  )
+  const subFlowcharts = inlineSubFlowcharts ? loadedSubFlowcharts : undefined
+
+  // Load the linked flowcharts while inlining is switched on
+  useEffect(() => {
+    if (!isOpen || !inlineSubFlowcharts || !loadSubFlowcharts) {
+      return
+    }
+
+    let cancelled = false
+    loadSubFlowcharts(nodes)
+      .then((loaded) => {
+        if (!cancelled) setLoadedSubFlowcharts(loaded)
+      })
+      .catch((error) => {
+        console.error("Failed to load linked flowcharts:", error)
+        if (!cancelled) setLoadedSubFlowcharts(new Map())
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, inlineSubFlowcharts, loadSubFlowcharts, nodes])
 
   // Generate Mermaid code when component opens or options change
   const generateMermaidCode = useCallback(() => {
-    const code = convertToMermaid(nodes, edges, metadata, conversionOptions)
+    const code = convert(nodes, edges, metadata, { ...conversionOptions, subFlowcharts })
     setMermaidCode(code)
 
     // Validate the flowchart
-    const validationResult = validateFlowchartForMermaid(nodes, edges)
+    const validationResult = validate(nodes, edges)
+    const missingCount = subFlowcharts ? linkedFlowchartIds.filter(id => !subFlowcharts.has(id)).length : 0
+    if (missingCount > 0) {
+      validationResult.warnings = [
+        ...validationResult.warnings,
+        `${missingCount} linked flowchart(s) could not be found and are shown as single nodes`
+      ]
+    }
     setValidation(validationResult)
-  }, [nodes, edges, metadata, conversionOptions])
+  }, [nodes, edges, metadata, conversionOptions, subFlowcharts, linkedFlowchartIds, convert, validate])
+
+  // Follow the canvas layout direction whenever the dialog is opened
+  useEffect(() => {
+    if (isOpen) {
+      setConversionOptions(prev => ({ ...prev, direction }))
+    }
+  }, [isOpen, direction])
 
   // Generate code when modal opens or dependencies change
   useEffect(() => {
@@ -123,6 +184,29 @@ export function MermaidExporter({
     }
   }, [isOpen, generateMermaidCode])
 
+  // Render the generated code with the bundled Mermaid renderer, debounced
+  // while options are toggled. Results of outdated renders are dropped.
+  useEffect(() => {
+    if (!isOpen || !mermaidCode) {
+      return
+    }
+
+    let cancelled = false
+    setIsRendering(true)
+    const timeout = setTimeout(async () => {
+      const result = await renderMermaidDiagram(mermaidCode)
+      if (cancelled) return
+      setRenderedSvg(result.svg)
+      setRenderError(result.error)
+      setIsRendering(false)
+    }, 250)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [isOpen, mermaidCode])
+
   // Copy to clipboard functionality
   const copyToClipboard = useCallback(async () => {
     try {
@@ -172,11 +256,16 @@ export function MermaidExporter({
   // Get preview statistics
   const preview = generateMermaidPreview(mermaidCode)
 
+  // Renderer failures are shown alongside the converter's own validation errors
+  const errors = renderError
+    ? [...validation.errors, `Mermaid could not render the diagram: ${renderError}`]
+    : validation.errors
+
   if (!isOpen) return null
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-      <Card className="w-full max-w-4xl max-h-[90vh] flex flex-col">
+      <Card className="w-full max-w-6xl max-h-[90vh] flex flex-col">
         <CardHeader className="flex-shrink-0">
           <div className="flex items-center justify-between">
             <CardTitle className="flex items-center gap-2">
@@ -194,14 +283,14 @@ export function MermaidExporter({
           </div>
 
           {/* Validation Messages */}
-          {validation.errors.length > 0 && (
+          {errors.length > 0 && (
             <div className="bg-red-50 border border-red-200 rounded-md p-3">
               <div className="flex items-center gap-2 text-red-700 font-medium mb-2">
                 <AlertTriangle className="w-4 h-4" />
                 Errors
               </div>
               <ul className="text-sm text-red-600 space-y-1">
-                {validation.errors.map((error, index) => (
+                {errors.map((error, index) => (
                   <li key={index}>• {error}</li>
                 ))}
               </ul>
@@ -266,28 +355,73 @@ export function MermaidExporter({
                     />
                     <span className="text-sm">Description</span>
                   </label>
+                  {loadSubFlowcharts && linkedFlowchartIds.length > 0 && (
+                    <label className="flex items-center gap-2" title="Expand linked subprocesses into subgraphs holding their flowchart">
+                      <input
+                        type="checkbox"
+                        checked={inlineSubFlowcharts}
+                        onChange={() => setInlineSubFlowcharts(!inlineSubFlowcharts)}
+                        className="rounded"
+                      />
+                      <span className="text-sm">Linked sub-flowcharts</span>
+                    </label>
+                  )}
                 </div>
               </div>
             </div>
           </div>
 
-          {/* Code Preview */}
-          <div className="flex-1 flex flex-col min-h-0">
-            <div className="flex items-center justify-between mb-2">
-              <h3 className="font-medium">Generated Mermaid Code</h3>
-              <div className="text-sm text-gray-500">
-                {preview.lineCount} lines • {preview.characterCount} characters
+          {/* Code and Rendered Preview */}
+          <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-4 min-h-0">
+            <div className="flex flex-col min-h-0">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-medium">Generated Mermaid Code</h3>
+                <div className="text-sm text-gray-500">
+                  {preview.lineCount} lines • {preview.characterCount} characters
+                </div>
+              </div>
+
+              <div className="flex-1 min-h-0">
+                <div className="h-full border rounded-md bg-gray-50 overflow-hidden">
+                  <div className="h-full overflow-auto">
+                    {mermaidCode ? (
+                      <MermaidCodeDisplay code={mermaidCode} />
+                    ) : (
+                      <div className="p-4 text-gray-500 text-sm font-mono">
+                        Generated Mermaid code will appear here...
+                      </div>
+                    )}
+                  </div>
+                </div>
               </div>
             </div>
 
-            <div className="flex-1 min-h-0">
-              <div className="h-full border rounded-md bg-gray-50 overflow-hidden">
-                <div className="h-full overflow-auto">
-                  {mermaidCode ? (
-                    <MermaidCodeDisplay code={mermaidCode} />
+            <div className="flex flex-col min-h-0">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-medium">Rendered Preview</h3>
+                {isRendering && (
+                  <div className="flex items-center gap-1 text-sm text-gray-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Rendering
+                  </div>
+                )}
+              </div>
+
+              <div className="flex-1 min-h-0">
+                <div className="h-full border rounded-md bg-white overflow-auto p-4">
+                  {renderError ? (
+                    <div className="text-sm text-red-600">
+                      The diagram could not be rendered. See the errors above.
+                    </div>
+                  ) : renderedSvg ? (
+                    // SVG produced by Mermaid with securityLevel "strict", which sanitizes labels
+                    <div
+                      className="flex justify-center [&_svg]:max-w-full [&_svg]:h-auto"
+                      dangerouslySetInnerHTML={{ __html: renderedSvg }}
+                    />
                   ) : (
-                    <div className="p-4 text-gray-500 text-sm font-mono">
-                      Generated Mermaid code will appear here...
+                    <div className="text-gray-500 text-sm">
+                      The rendered diagram will appear here...
                     </div>
                   )}
                 </div>
@@ -0,0 +1,162 @@
+import { useState, useCallback, useEffect, useMemo, useRef, type ChangeEvent } from "react"
+import { X, Upload, FileInput, AlertTriangle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+import { parseMermaidFlowchart, type MermaidParseResult } from "@/lib/mermaidParser"
+
+interface MermaidImporterProps {
+  isOpen: boolean
+  onClose: () => void
+  onImport: (result: MermaidParseResult) => void
+}
+
+export function MermaidImporter({ isOpen, onClose, onImport }: MermaidImporterProps) {
+  const [source, setSource] = useState("")
+  const [fileName, setFileName] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Start from an empty editor every time the dialog is opened
+  useEffect(() => {
+    if (isOpen) {
+      setSource("")
+      setFileName(null)
+    }
+  }, [isOpen])
+
+  // Re-parse as the user types so problems show up before importing
+  const parseResult = useMemo(() => {
+    return source.trim() ? parseMermaidFlowchart(source) : null
+  }, [source])
+
+  const handleFileChange = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    try {
+      setSource(await file.text())
+      setFileName(file.name)
+    } catch (error) {
+      console.error("Failed to read Mermaid file:", error)
+    } finally {
+      // Allow picking the same file again
+      event.target.value = ""
+    }
+  }, [])
+
+  const handleImport = useCallback(() => {
+    if (!parseResult?.isValid) return
+
+    // Fall back to the file name when the diagram has no front matter title
+    const title = parseResult.title || fileName?.replace(/\.(mmd|mermaid|md|txt)$/i, "")
+    onImport({ ...parseResult, title })
+    onClose()
+  }, [parseResult, fileName, onImport, onClose])
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <CardHeader className="flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <FileInput className="w-5 h-5" />
+              Import from Mermaid.js
+            </CardTitle>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onClose}
+              className="h-8 w-8"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {/* Validation Messages */}
+          {parseResult && parseResult.errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <div className="flex items-center gap-2 text-red-700 font-medium mb-2">
+                <AlertTriangle className="w-4 h-4" />
+                Errors
+              </div>
+              <ul className="text-sm text-red-600 space-y-1">
+                {parseResult.errors.map((error, index) => (
+                  <li key={index}>• {error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {parseResult && parseResult.warnings.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 max-h-32 overflow-y-auto">
+              <div className="flex items-center gap-2 text-yellow-700 font-medium mb-2">
+                <AlertTriangle className="w-4 h-4" />
+                Warnings
+              </div>
+              <ul className="text-sm text-yellow-600 space-y-1">
+                {parseResult.warnings.map((warning, index) => (
+                  <li key={index}>• {warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardHeader>
+
+        <CardContent className="flex-1 flex flex-col min-h-0">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-medium">Mermaid Flowchart</h3>
+            <div className="flex items-center gap-2">
+              {fileName && <span className="text-sm text-gray-500">{fileName}</span>}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                Open File
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".mmd,.mermaid,.md,.txt"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+            </div>
+          </div>
+
+          <Textarea
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            placeholder={"flowchart TD\n    A([Start]) --> B[Process]\n    B --> C{Decision?}\n    C -->|Yes| D([End])"}
+            className="flex-1 min-h-64 font-mono text-sm"
+            spellCheck={false}
+          />
+
+          {/* Action Buttons */}
+          <div className="flex items-center justify-between mt-4 pt-4 border-t">
+            <div className="text-sm text-gray-500">
+              {parseResult
+                ? `${parseResult.nodes.length} nodes • ${parseResult.edges.length} connections`
+                : "Paste a flowchart or open a .mmd file"}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={!parseResult?.isValid || parseResult.nodes.length === 0}
+              >
+                Import as New Flowchart
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+import { useState } from "react"
+import { Copy, FolderOpen, Pencil, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { type FlowchartSummary } from "@/lib/flowchartStorage"
+
+interface RecentFlowchartsPanelProps {
+  flowcharts: FlowchartSummary[]
+  currentFlowchartId?: string
+  onOpen: (id: string) => void
+  onRename: (id: string, title: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+export function RecentFlowchartsPanel({
+  flowcharts,
+  currentFlowchartId,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: RecentFlowchartsPanelProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState("")
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+
+  const startRename = (flowchart: FlowchartSummary) => {
+    setConfirmDeleteId(null)
+    setRenamingId(flowchart.id)
+    setRenameValue(flowchart.title)
+  }
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRename(renamingId, renameValue.trim())
+    }
+    setRenamingId(null)
+  }
+
+  const handleDelete = (id: string) => {
+    onDelete(id)
+    setConfirmDeleteId(null)
+  }
+
+  return (
+    <div className="p-4 border-b border-gray-100">
+      <h3 className="text-sm font-medium text-gray-700 mb-3">Recent Flowcharts</h3>
+      {flowcharts.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Saved flowcharts will appear here
+        </p>
+      ) : (
+        <ul className="space-y-1 max-h-56 overflow-y-auto" aria-label="Saved flowcharts">
+          {flowcharts.map((flowchart) => {
+            const isCurrent = flowchart.id === currentFlowchartId
+
+            return (
+              <li
+                key={flowchart.id}
+                className={`rounded-md border px-2 py-1.5 ${
+                  isCurrent ? "border-blue-300 bg-blue-50" : "border-gray-200 bg-gray-50"
+                }`}
+              >
+                {renamingId === flowchart.id ? (
+                  <input
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        commitRename()
+                      }
+                      if (e.key === "Escape") {
+                        setRenamingId(null)
+                      }
+                    }}
+                    className="w-full px-1 py-0.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    autoFocus
+                    aria-label={`Rename ${flowchart.title}`}
+                  />
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => onOpen(flowchart.id)}
+                      className="flex-1 min-w-0 text-left focus:outline-none focus:ring-1 focus:ring-blue-500 rounded"
+                      title={isCurrent ? "Currently open" : `Open ${flowchart.title}`}
+                      aria-current={isCurrent ? "true" : undefined}
+                    >
+                      <div className={`text-sm truncate ${isCurrent ? "font-medium text-blue-700" : "text-gray-800"}`}>
+                        {flowchart.title || "Untitled Flowchart"}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {flowchart.nodeCount} node{flowchart.nodeCount !== 1 ? "s" : ""} • {flowchart.updatedAt.toLocaleString()}
+                      </div>
+                    </button>
+                    {!isCurrent && (
+                      <Button
+                        onClick={() => onOpen(flowchart.id)}
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        aria-label={`Open ${flowchart.title}`}
+                      >
+                        <FolderOpen className="w-3 h-3" />
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => startRename(flowchart)}
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      aria-label={`Rename ${flowchart.title}`}
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      onClick={() => onDuplicate(flowchart.id)}
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      aria-label={`Duplicate ${flowchart.title}`}
+                    >
+                      <Copy className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      onClick={() => setConfirmDeleteId(flowchart.id)}
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 text-red-600 hover:text-red-700"
+                      aria-label={`Delete ${flowchart.title}`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
+
+                {confirmDeleteId === flowchart.id && (
+                  <div className="mt-2 space-y-1">
+                    <div className="text-xs text-red-600 font-medium">
+                      Delete this flowchart permanently?
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => handleDelete(flowchart.id)}
+                        size="sm"
+                        variant="destructive"
+                        className="flex-1 h-6 text-xs"
+                      >
+                        Delete
+                      </Button>
+                      <Button
+                        onClick={() => setConfirmDeleteId(null)}
+                        size="sm"
+                        variant="outline"
+                        className="flex-1 h-6 text-xs"
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
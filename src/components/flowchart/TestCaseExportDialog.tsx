@@ -0,0 +1,169 @@
+import { useState, useCallback, useMemo } from "react"
+import { type Node, type Edge } from "reactflow"
+import { X, ListChecks, Copy, Download, CheckCircle, AlertTriangle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { enumerateFlowchartPaths, formatTestCases, type TestCaseFormat } from "@/lib/flowchartTestCases"
+
+interface TestCaseExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  nodes: Node[]
+  edges: Edge[]
+  title?: string
+}
+
+const FORMATS: { id: TestCaseFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: "markdown", label: "Markdown", extension: "md", mimeType: "text/markdown" },
+  { id: "csv", label: "CSV", extension: "csv", mimeType: "text/csv" },
+]
+
+// One test case per distinct start-to-end path through the decisions
+export function TestCaseExportDialog({ isOpen, onClose, nodes, edges, title = "" }: TestCaseExportDialogProps) {
+  const [format, setFormat] = useState<TestCaseFormat>("markdown")
+  const [maxLoopIterations, setMaxLoopIterations] = useState(1)
+  const [copySuccess, setCopySuccess] = useState(false)
+
+  const { paths, warnings } = useMemo(
+    () => (isOpen ? enumerateFlowchartPaths(nodes, edges, { maxLoopIterations }) : { paths: [], warnings: [] }),
+    [isOpen, nodes, edges, maxLoopIterations]
+  )
+  const content = useMemo(() => formatTestCases(paths, nodes, format, title), [paths, nodes, format, title])
+  const selectedFormat = FORMATS.find(item => item.id === format) || FORMATS[0]
+
+  const copyToClipboard = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(content)
+      setCopySuccess(true)
+      setTimeout(() => setCopySuccess(false), 2000)
+    } catch (error) {
+      console.error("Failed to copy to clipboard:", error)
+    }
+  }, [content])
+
+  const downloadAsFile = useCallback(() => {
+    const blob = new Blob([content], { type: selectedFormat.mimeType })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${title || 'flowchart'}-test-cases.${selectedFormat.extension}`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }, [content, selectedFormat, title])
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <CardHeader className="flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="w-5 h-5" />
+              Generate Test Cases
+            </CardTitle>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onClose}
+              className="h-8 w-8"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-sm text-gray-500">
+            {paths.length} path{paths.length !== 1 ? 's' : ''} from start to end, with the branch taken at each decision
+          </p>
+
+          {warnings.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 max-h-32 overflow-y-auto">
+              <div className="flex items-center gap-2 text-yellow-700 font-medium mb-2">
+                <AlertTriangle className="w-4 h-4" />
+                Warnings
+              </div>
+              <ul className="text-sm text-yellow-600 space-y-1">
+                {warnings.map((warning, index) => (
+                  <li key={index}>• {warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardHeader>
+
+        <CardContent className="flex-1 flex flex-col min-h-0">
+          {/* Options */}
+          <div className="flex items-center justify-between gap-4 mb-3">
+            <div className="flex items-center gap-2">
+              {FORMATS.map(item => (
+                <Button
+                  key={item.id}
+                  variant={item.id === format ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setFormat(item.id)}
+                >
+                  {item.label}
+                </Button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              Loop repetitions
+              <input
+                type="number"
+                min={0}
+                max={5}
+                value={maxLoopIterations}
+                onChange={(e) => setMaxLoopIterations(Math.min(5, Math.max(0, Number(e.target.value) || 0)))}
+                className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                title="How many extra times a path may go around a loop"
+              />
+            </label>
+          </div>
+
+          {/* Table Preview */}
+          <div className="flex-1 min-h-0 border rounded-md bg-gray-50 overflow-auto">
+            <pre className="p-4 text-sm font-mono text-gray-800 whitespace-pre">
+              {content}
+            </pre>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex items-center justify-between mt-4 pt-4 border-t">
+            <div className="text-sm text-gray-500">
+              {`${title || 'flowchart'}-test-cases.${selectedFormat.extension}`}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={downloadAsFile}
+                disabled={paths.length === 0}
+                className="flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                Download
+              </Button>
+              <Button
+                onClick={copyToClipboard}
+                disabled={paths.length === 0}
+                className="flex items-center gap-2"
+              >
+                {copySuccess ? (
+                  <>
+                    <CheckCircle className="w-4 h-4" />
+                    Copied!
+                  </>
+                ) : (
+                  <>
+                    <Copy className="w-4 h-4" />
+                    Copy
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { type NodeProps, Handle, Position } from "reactflow"
 import { Circle } from "lucide-react"
 
@@ -18,6 +18,11 @@ export function ConnectorNode({ data, selected, id }: ConnectorNodeProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [label, setLabel] = useState(data.label || "")
 
+  // Keep local edit state in sync when data changes from outside, e.g. undo/redo
+  useEffect(() => {
+    setLabel(data.label || "")
+  }, [data.label])
+
   const handleLabelUpdate = () => {
     setIsEditing(false)
     data.onUpdate?.(id, { label })
@@ -0,0 +1,28 @@
+import { type NodeProps } from "reactflow"
+import { Database } from "lucide-react"
+import { ShapeNode, type ShapeNodeData } from "./ShapeNode"
+
+// Extend NodeProps to include id
+interface DatabaseNodeProps extends NodeProps<ShapeNodeData> {
+  id: string
+}
+
+// Cylinder for data stored in a database
+export function DatabaseNode({ data, selected, id }: DatabaseNodeProps) {
+  return (
+    <ShapeNode
+      id={id}
+      data={data}
+      selected={selected}
+      typeLabel="Database"
+      icon={<Database className="w-3 h-3" />}
+      paddingX={16}
+      renderShape={(props) => (
+        <g {...props}>
+          <path d="M1,12 V68 A79,11 0 0 0 159,68 V12" />
+          <ellipse cx="80" cy="12" rx="79" ry="11" />
+        </g>
+      )}
+    />
+  )
+}
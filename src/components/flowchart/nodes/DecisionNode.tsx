@@ -1,4 +1,4 @@
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { type NodeProps, Handle, Position } from "reactflow"
 import { HelpCircle } from "lucide-react"
 
@@ -24,6 +24,19 @@ export function DecisionNode({ data, selected, id }: DecisionNodeProps) {
   const [yesLabel, setYesLabel] = useState(data.yesLabel || "Yes")
   const [noLabel, setNoLabel] = useState(data.noLabel || "No")
 
+  // Keep local edit state in sync when data changes from outside, e.g. undo/redo
+  useEffect(() => {
+    setLabel(data.label || "Decision?")
+  }, [data.label])
+
+  useEffect(() => {
+    setYesLabel(data.yesLabel || "Yes")
+  }, [data.yesLabel])
+
+  useEffect(() => {
+    setNoLabel(data.noLabel || "No")
+  }, [data.noLabel])
+
   const handleLabelUpdate = () => {
     setIsEditingLabel(false)
     data.onUpdate?.(id, { label })
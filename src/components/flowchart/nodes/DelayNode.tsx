@@ -0,0 +1,25 @@
+import { type NodeProps } from "reactflow"
+import { Hourglass } from "lucide-react"
+import { ShapeNode, type ShapeNodeData } from "./ShapeNode"
+
+// Extend NodeProps to include id
+interface DelayNodeProps extends NodeProps<ShapeNodeData> {
+  id: string
+}
+
+// Half-rounded rectangle for waiting time
+export function DelayNode({ data, selected, id }: DelayNodeProps) {
+  return (
+    <ShapeNode
+      id={id}
+      data={data}
+      selected={selected}
+      typeLabel="Delay"
+      icon={<Hourglass className="w-3 h-3" />}
+      paddingX={16}
+      renderShape={(props) => (
+        <path d="M1,1 H120 A39,39 0 0 1 120,79 H1 Z" {...props} />
+      )}
+    />
+  )
+}
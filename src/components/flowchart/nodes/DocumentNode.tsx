@@ -0,0 +1,25 @@
+import { type NodeProps } from "reactflow"
+import { FileText } from "lucide-react"
+import { ShapeNode, type ShapeNodeData } from "./ShapeNode"
+
+// Extend NodeProps to include id
+interface DocumentNodeProps extends NodeProps<ShapeNodeData> {
+  id: string
+}
+
+// Rectangle with a wavy bottom edge for a document or report
+export function DocumentNode({ data, selected, id }: DocumentNodeProps) {
+  return (
+    <ShapeNode
+      id={id}
+      data={data}
+      selected={selected}
+      typeLabel="Document"
+      icon={<FileText className="w-3 h-3" />}
+      paddingX={16}
+      renderShape={(props) => (
+        <path d="M1,1 H159 V66 C120,50 100,84 60,72 C35,65 18,62 1,68 Z" {...props} />
+      )}
+    />
+  )
+}
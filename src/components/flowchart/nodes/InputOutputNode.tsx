@@ -0,0 +1,25 @@
+import { type NodeProps } from "reactflow"
+import { ArrowLeftRight } from "lucide-react"
+import { ShapeNode, type ShapeNodeData } from "./ShapeNode"
+
+// Extend NodeProps to include id
+interface InputOutputNodeProps extends NodeProps<ShapeNodeData> {
+  id: string
+}
+
+// Parallelogram for data that enters or leaves the process
+export function InputOutputNode({ data, selected, id }: InputOutputNodeProps) {
+  return (
+    <ShapeNode
+      id={id}
+      data={data}
+      selected={selected}
+      typeLabel="Input/Output"
+      icon={<ArrowLeftRight className="w-3 h-3" />}
+      paddingX={28}
+      renderShape={(props) => (
+        <polygon points="22,1 159,1 138,79 1,79" {...props} />
+      )}
+    />
+  )
+}
@@ -0,0 +1,25 @@
+import { type NodeProps } from "reactflow"
+import { Hand } from "lucide-react"
+import { ShapeNode, type ShapeNodeData } from "./ShapeNode"
+
+// Extend NodeProps to include id
+interface ManualOperationNodeProps extends NodeProps<ShapeNodeData> {
+  id: string
+}
+
+// Trapezoid for a step done by hand
+export function ManualOperationNode({ data, selected, id }: ManualOperationNodeProps) {
+  return (
+    <ShapeNode
+      id={id}
+      data={data}
+      selected={selected}
+      typeLabel="Manual Operation"
+      icon={<Hand className="w-3 h-3" />}
+      paddingX={28}
+      renderShape={(props) => (
+        <polygon points="1,1 159,1 138,79 22,79" {...props} />
+      )}
+    />
+  )
+}
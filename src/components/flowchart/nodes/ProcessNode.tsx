@@ -1,4 +1,4 @@
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { type NodeProps, Handle, Position } from "reactflow"
 import { Settings } from "lucide-react"
 
@@ -21,6 +21,15 @@ export function ProcessNode({ data, selected, id }: ProcessNodeProps) {
   const [label, setLabel] = useState(data.label || "Process")
   const [description, setDescription] = useState(data.description || "")
 
+  // Keep local edit state in sync when data changes from outside, e.g. undo/redo
+  useEffect(() => {
+    setLabel(data.label || "Process")
+  }, [data.label])
+
+  useEffect(() => {
+    setDescription(data.description || "")
+  }, [data.description])
+
   const handleLabelUpdate = () => {
     setIsEditingLabel(false)
     data.onUpdate?.(id, { label })
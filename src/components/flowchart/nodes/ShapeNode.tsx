@@ -0,0 +1,133 @@
+import { useEffect, useState, type ReactNode } from "react"
+import { Handle, Position } from "reactflow"
+
+export interface ShapeNodeData {
+  label: string
+  backgroundColor?: string
+  textColor?: string
+  onUpdate?: (id: string, updates: object) => void
+}
+
+interface ShapeNodeProps {
+  id: string
+  data: ShapeNodeData
+  selected: boolean
+  // Used for the caption, handle ids and screen reader text, e.g. "Document"
+  typeLabel: string
+  icon: ReactNode
+  // SVG outline drawn in a 160x80 box; gets the fill and stroke props
+  renderShape: (props: { fill: string; stroke: string; strokeWidth: number }) => ReactNode
+  // Horizontal room the outline needs around the label, e.g. for slanted sides
+  paddingX?: number
+  // Off when double-clicking the node does something else; Enter still edits
+  editOnDoubleClick?: boolean
+  // Extra line for screen readers, e.g. what double-clicking does
+  description?: string
+}
+
+const SHAPE_WIDTH = 160
+const SHAPE_HEIGHT = 80
+
+// Single-step node drawn as a standard flowchart symbol, with an editable label
+export function ShapeNode({
+  id,
+  data,
+  selected,
+  typeLabel,
+  icon,
+  renderShape,
+  paddingX = 16,
+  editOnDoubleClick = true,
+  description,
+}: ShapeNodeProps) {
+  const [isEditingLabel, setIsEditingLabel] = useState(false)
+  const [label, setLabel] = useState(data.label || typeLabel)
+  const handlePrefix = typeLabel.toLowerCase().replace(/[^a-z]+/g, "-")
+
+  // Keep local edit state in sync when data changes from outside, e.g. undo/redo
+  useEffect(() => {
+    setLabel(data.label || typeLabel)
+  }, [data.label, typeLabel])
+
+  const handleLabelUpdate = () => {
+    setIsEditingLabel(false)
+    data.onUpdate?.(id, { label })
+  }
+
+  const textColor = data.textColor || "#374151"
+  const stroke = selected ? "#3b82f6" : textColor
+
+  return (
+    <div
+      className="relative"
+      style={{ width: SHAPE_WIDTH, height: SHAPE_HEIGHT, color: textColor }}
+      role="button"
+      tabIndex={0}
+      aria-label={`${typeLabel} node: ${label}. ${editOnDoubleClick ? 'Double-click to edit.' : 'Press Enter to edit.'}`}
+      aria-describedby={`${id}-description`}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault()
+          setIsEditingLabel(true)
+        }
+      }}
+    >
+      {/* Input handle */}
+      <Handle type="target" position={Position.Top} id={`${handlePrefix}-input`} />
+
+      <svg
+        className="absolute inset-0 drop-shadow-md"
+        width={SHAPE_WIDTH}
+        height={SHAPE_HEIGHT}
+        viewBox={`0 0 ${SHAPE_WIDTH} ${SHAPE_HEIGHT}`}
+        aria-hidden="true"
+      >
+        {renderShape({ fill: data.backgroundColor || "#f9fafb", stroke, strokeWidth: 2 })}
+      </svg>
+
+      <div
+        className="absolute inset-0 flex flex-col items-center justify-center text-center"
+        style={{ paddingLeft: paddingX, paddingRight: paddingX }}
+      >
+        <div className="flex items-center gap-1 opacity-75">
+          {icon}
+          <span className="text-[10px] font-medium">{typeLabel}</span>
+        </div>
+        {isEditingLabel ? (
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onBlur={handleLabelUpdate}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                handleLabelUpdate()
+              }
+              if (e.key === "Escape") {
+                setLabel(data.label || typeLabel)
+                setIsEditingLabel(false)
+              }
+            }}
+            className="w-full bg-transparent border-none outline-none text-sm font-medium text-center focus:ring-2 focus:ring-blue-500 focus:ring-inset"
+            autoFocus
+            aria-label={`Edit ${typeLabel.toLowerCase()} node label`}
+          />
+        ) : (
+          <div
+            className="text-sm font-medium cursor-text leading-tight line-clamp-2"
+            onDoubleClick={() => editOnDoubleClick && setIsEditingLabel(true)}
+          >
+            {label}
+          </div>
+        )}
+      </div>
+
+      {/* Hidden description for screen readers */}
+      <div id={`${id}-description`} className="sr-only">
+        {typeLabel} node in flowchart.{description ? ` ${description}` : ''}
+      </div>
+
+      {/* Output handle */}
+      <Handle type="source" position={Position.Bottom} id={`${handlePrefix}-output`} />
+    </div>
+  )
+}
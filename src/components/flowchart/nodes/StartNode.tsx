@@ -1,4 +1,4 @@
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { type NodeProps, Handle, Position } from "reactflow"
 import { Play, Square } from "lucide-react"
 
@@ -19,6 +19,11 @@ export function StartNode({ data, selected, id }: StartNodeProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [label, setLabel] = useState(data.label || (data.nodeType === 'start' ? 'Start' : 'End'))
 
+  // Keep local edit state in sync when data changes from outside, e.g. undo/redo
+  useEffect(() => {
+    setLabel(data.label || (data.nodeType === 'start' ? 'Start' : 'End'))
+  }, [data.label, data.nodeType])
+
   const handleLabelUpdate = () => {
     setIsEditing(false)
     data.onUpdate?.(id, { label })
@@ -0,0 +1,39 @@
+import { type NodeProps } from "reactflow"
+import { Layers, Link2 } from "lucide-react"
+import { ShapeNode, type ShapeNodeData } from "./ShapeNode"
+
+interface SubprocessNodeData extends ShapeNodeData {
+  // Flowchart in the library this step is described by
+  flowchartId?: string
+}
+
+// Extend NodeProps to include id
+interface SubprocessNodeProps extends NodeProps<SubprocessNodeData> {
+  id: string
+}
+
+// Double-bordered rectangle for a predefined process described elsewhere.
+// When linked, double-clicking opens the linked flowchart instead of editing.
+export function SubprocessNode({ data, selected, id }: SubprocessNodeProps) {
+  const isLinked = !!data.flowchartId
+
+  return (
+    <ShapeNode
+      id={id}
+      data={data}
+      selected={selected}
+      typeLabel="Subprocess"
+      icon={isLinked ? <Link2 className="w-3 h-3" /> : <Layers className="w-3 h-3" />}
+      paddingX={24}
+      editOnDoubleClick={!isLinked}
+      description={isLinked ? "Linked to another flowchart; double-click to open it." : undefined}
+      renderShape={(props) => (
+        <g {...props}>
+          <rect x="1" y="1" width="158" height="78" />
+          <line x1="14" y1="1" x2="14" y2="79" />
+          <line x1="146" y1="1" x2="146" y2="79" />
+        </g>
+      )}
+    />
+  )
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react"
+import { type NodeProps, NodeResizer } from "reactflow"
+import { type SwimlaneOrientation } from "@/lib/flowchartSwimlanes"
+
+interface SwimlaneNodeData {
+  label: string
+  orientation?: SwimlaneOrientation
+  backgroundColor?: string
+  textColor?: string
+  onUpdate?: (id: string, updates: object) => void
+}
+
+// Extend NodeProps to include id
+interface SwimlaneNodeProps extends NodeProps<SwimlaneNodeData> {
+  id: string
+}
+
+// Container for the steps one team or role is responsible for
+export function SwimlaneNode({ data, selected, id }: SwimlaneNodeProps) {
+  const [isEditingLabel, setIsEditingLabel] = useState(false)
+  const [label, setLabel] = useState(data.label || "Lane")
+  const isHorizontal = (data.orientation || "horizontal") === "horizontal"
+
+  // Keep local edit state in sync when data changes from outside, e.g. undo/redo
+  useEffect(() => {
+    setLabel(data.label || "Lane")
+  }, [data.label])
+
+  const handleLabelUpdate = () => {
+    setIsEditingLabel(false)
+    data.onUpdate?.(id, { label })
+  }
+
+  const borderColor = selected ? 'border-blue-500' : 'border-gray-300'
+
+  return (
+    <>
+      {/* Resizing is only offered while the lane is editable */}
+      <NodeResizer isVisible={selected && !!data.onUpdate} minWidth={200} minHeight={120} />
+      <div
+        className={`w-full h-full flex border-2 border-dashed rounded-md ${isHorizontal ? 'flex-row' : 'flex-col'} ${borderColor}`}
+        style={{ backgroundColor: data.backgroundColor ? `${data.backgroundColor}66` : 'rgba(243, 244, 246, 0.4)' }}
+        role="group"
+        aria-label={`${isHorizontal ? 'Horizontal' : 'Vertical'} swimlane: ${label}. Double-click the title to edit.`}
+      >
+        {/* Lane title band */}
+        <div
+          className={`flex items-center justify-center flex-shrink-0 ${isHorizontal ? 'w-10 border-r-2' : 'h-10 border-b-2'} border-dashed ${borderColor}`}
+          style={{ backgroundColor: data.backgroundColor, color: data.textColor }}
+        >
+          {isEditingLabel ? (
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              onBlur={handleLabelUpdate}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  handleLabelUpdate()
+                }
+                if (e.key === "Escape") {
+                  setLabel(data.label || "Lane")
+                  setIsEditingLabel(false)
+                }
+              }}
+              className="w-32 bg-white border border-gray-300 rounded px-1 text-sm font-medium text-center outline-none focus:ring-2 focus:ring-blue-500"
+              style={isHorizontal ? { transform: 'rotate(-90deg)' } : undefined}
+              autoFocus
+              aria-label="Edit swimlane title"
+            />
+          ) : (
+            <div
+              className="text-sm font-medium cursor-text whitespace-nowrap"
+              style={isHorizontal ? { writingMode: 'vertical-rl', transform: 'rotate(180deg)' } : undefined}
+              onDoubleClick={() => setIsEditingLabel(true)}
+            >
+              {label}
+            </div>
+          )}
+        </div>
+        <div className="flex-1" />
+      </div>
+    </>
+  )
+}
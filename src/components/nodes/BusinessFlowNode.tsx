@@ -2,7 +2,7 @@ import { useState } from "react"
 import { type NodeProps, Handle, Position } from "reactflow"
 import { Workflow } from "lucide-react"
 
-export function BusinessFlowNode({ data, selected }: NodeProps) {
+export function BusinessFlowNode({ id, data, selected }: NodeProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [label, setLabel] = useState(data.label || "Business Flow")
 
@@ -24,12 +24,12 @@ export function BusinessFlowNode({ data, selected }: NodeProps) {
           onChange={(e) => setLabel(e.target.value)}
           onBlur={() => {
             setIsEditing(false)
-            data.onUpdate?.(data.id, { label })
+            data.onUpdate?.(id, { label })
           }}
           onKeyDown={(e) => {
             if (e.key === "Enter") {
               setIsEditing(false)
-              data.onUpdate?.(data.id, { label })
+              data.onUpdate?.(id, { label })
             }
           }}
           className="w-full bg-transparent border-none outline-none font-medium"
@@ -26,21 +26,21 @@ export function GatewayNode({ id, data, selected }: NodeProps) {
     const oldHeaders = payload[headersField] || []
     const newHeaders = [...oldHeaders]
     newHeaders[index] = { ...newHeaders[index], [field]: value }
-    handleUpdate(headersField, newHeaders)
+    handleUpdate(`payload.${headersField}`, newHeaders)
   }
 
   const addHeader = (type: "request" | "response") => {
     const headersField = type === "request" ? "requestHeaders" : "responseHeaders"
     const oldHeaders = payload[headersField] || []
     const newHeaders = [...oldHeaders, { key: "", value: "" }]
-    handleUpdate(headersField, newHeaders)
+    handleUpdate(`payload.${headersField}`, newHeaders)
   }
 
   const removeHeader = (index: number, type: "request" | "response") => {
     const headersField = type === "request" ? "requestHeaders" : "responseHeaders"
     const oldHeaders = payload[headersField] || []
     const newHeaders = oldHeaders.filter((_: any, i: number) => i !== index)
-    handleUpdate(headersField, newHeaders)
+    handleUpdate(`payload.${headersField}`, newHeaders)
   }
 
   return (
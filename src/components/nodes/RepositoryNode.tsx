@@ -55,7 +55,7 @@ export function RepositoryNode({ id, data, selected }: NodeProps) {
           <div className="flex items-center gap-1">
             <label className="w-20 font-medium opacity-75">Type:</label>
             <select
-              value={payload.databaseType || "PostgreSQL"}
+              value={payload.database || "PostgreSQL"}
               onChange={(e) => handleUpdate("payload.database", e.target.value)}
               className="w-full bg-yellow-50 border border-yellow-200 rounded px-1 py-0.5 text-xs"
             >
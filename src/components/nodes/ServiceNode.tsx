@@ -57,7 +57,7 @@ export function ServiceNode({ id, data, selected }: NodeProps) {
             <input
               type="text"
               value={payload.serviceName || ""}
-              onChange={(e) => handleUpdate("serviceName", e.target.value)}
+              onChange={(e) => handleUpdate("payload.serviceName", e.target.value)}
               className="w-full bg-red-50 border border-red-200 rounded px-1 py-0.5 text-xs"
               placeholder="NewService"
             />
@@ -66,7 +66,7 @@ export function ServiceNode({ id, data, selected }: NodeProps) {
             <label className="block font-medium opacity-75 mb-0.5">Description:</label>
             <textarea
               value={payload.description || ""}
-              onChange={(e) => handleUpdate("description", e.target.value)}
+              onChange={(e) => handleUpdate("payload.description", e.target.value)}
               className="w-full bg-red-50 border border-red-200 rounded px-1 py-0.5 text-xs h-16"
               placeholder="This service handles business logic."
             />
@@ -75,7 +75,7 @@ export function ServiceNode({ id, data, selected }: NodeProps) {
             <label className="block font-medium opacity-75 mb-0.5">Dependencies:</label>
             <textarea
               value={payload.dependencies || ""}
-              onChange={(e) => handleUpdate("dependencies", e.target.value)}
+              onChange={(e) => handleUpdate("payload.dependencies", e.target.value)}
               className="w-full bg-red-50 border border-red-200 rounded px-1 py-0.5 text-xs h-12"
               placeholder="e.g., ApiService, Logger"
             />
@@ -0,0 +1,129 @@
+import { useCallback, useRef, useState } from "react"
+import { type Edge, type Node } from "reactflow"
+
+export interface FlowchartSnapshot<TMetadata> {
+  nodes: Node[]
+  edges: Edge[]
+  metadata: TMetadata
+}
+
+interface UseFlowchartHistoryOptions<TMetadata> {
+  nodes: Node[]
+  edges: Edge[]
+  metadata: TMetadata
+  setNodes: (nodes: Node[]) => void
+  setEdges: (edges: Edge[]) => void
+  setMetadata: (metadata: TMetadata) => void
+  maxHistory?: number
+  // Snapshots taken with the same key within this window form a single step
+  coalesceWindowMs?: number
+}
+
+/**
+ * Snapshot-based undo/redo history for a flowchart canvas.
+ * Call takeSnapshot() right before applying a change.
+ */
+export function useFlowchartHistory<TMetadata>({
+  nodes,
+  edges,
+  metadata,
+  setNodes,
+  setEdges,
+  setMetadata,
+  maxHistory = 100,
+  coalesceWindowMs = 1000,
+}: UseFlowchartHistoryOptions<TMetadata>) {
+  const past = useRef<FlowchartSnapshot<TMetadata>[]>([])
+  const future = useRef<FlowchartSnapshot<TMetadata>[]>([])
+  const lastCoalesce = useRef<{ key: string; time: number } | null>(null)
+  const [historySize, setHistorySize] = useState({ past: 0, future: 0 })
+
+  // Latest state, read by the stable callbacks below
+  const current = useRef<FlowchartSnapshot<TMetadata>>({ nodes, edges, metadata })
+  current.current = { nodes, edges, metadata }
+
+  const updateHistorySize = useCallback(() => {
+    setHistorySize({ past: past.current.length, future: future.current.length })
+  }, [])
+
+  // Capture the current state without recording it, e.g. at the start of a drag
+  const captureSnapshot = useCallback((): FlowchartSnapshot<TMetadata> => {
+    return { ...current.current }
+  }, [])
+
+  // Record a previously captured state as an undo step
+  const pushSnapshot = useCallback((snapshot: FlowchartSnapshot<TMetadata>) => {
+    past.current = [...past.current, snapshot].slice(-maxHistory)
+    future.current = []
+    lastCoalesce.current = null
+    updateHistorySize()
+  }, [maxHistory, updateHistorySize])
+
+  // Record the current state before a change. Repeated calls with the same
+  // coalesceKey (e.g. typing into a title) are merged into one step.
+  const takeSnapshot = useCallback((coalesceKey?: string) => {
+    const now = Date.now()
+    if (
+      coalesceKey &&
+      lastCoalesce.current?.key === coalesceKey &&
+      now - lastCoalesce.current.time < coalesceWindowMs
+    ) {
+      lastCoalesce.current = { key: coalesceKey, time: now }
+      return
+    }
+
+    pushSnapshot(captureSnapshot())
+    lastCoalesce.current = coalesceKey ? { key: coalesceKey, time: now } : null
+  }, [captureSnapshot, pushSnapshot, coalesceWindowMs])
+
+  const applySnapshot = useCallback((snapshot: FlowchartSnapshot<TMetadata>) => {
+    setNodes(snapshot.nodes)
+    setEdges(snapshot.edges)
+    setMetadata(snapshot.metadata)
+  }, [setNodes, setEdges, setMetadata])
+
+  const undo = useCallback(() => {
+    const previous = past.current[past.current.length - 1]
+    if (!previous) {
+      return
+    }
+
+    past.current = past.current.slice(0, -1)
+    future.current = [...future.current, captureSnapshot()]
+    lastCoalesce.current = null
+    applySnapshot(previous)
+    updateHistorySize()
+  }, [captureSnapshot, applySnapshot, updateHistorySize])
+
+  const redo = useCallback(() => {
+    const next = future.current[future.current.length - 1]
+    if (!next) {
+      return
+    }
+
+    future.current = future.current.slice(0, -1)
+    past.current = [...past.current, captureSnapshot()]
+    lastCoalesce.current = null
+    applySnapshot(next)
+    updateHistorySize()
+  }, [captureSnapshot, applySnapshot, updateHistorySize])
+
+  // Forget all steps, e.g. when another flowchart is opened
+  const clearHistory = useCallback(() => {
+    past.current = []
+    future.current = []
+    lastCoalesce.current = null
+    updateHistorySize()
+  }, [updateHistorySize])
+
+  return {
+    takeSnapshot,
+    captureSnapshot,
+    pushSnapshot,
+    undo,
+    redo,
+    clearHistory,
+    canUndo: historySize.past > 0,
+    canRedo: historySize.future > 0,
+  }
+}
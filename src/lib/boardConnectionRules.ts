@@ -0,0 +1,98 @@
+import { BOARD_NODE_TYPES, type BoardNodeType } from "./boardNodeModels"
+
+export interface ConnectionRuleSet {
+  // Node types each type may call, connected bottom handle to top handle
+  allowedTargets: Record<BoardNodeType, BoardNodeType[]>
+  // Whether nodes of the same type may be chained, e.g. one customer action after another
+  allowSameType: boolean
+}
+
+export const DEFAULT_CONNECTION_RULES: ConnectionRuleSet = {
+  allowedTargets: {
+    businessFlow: ["customerAction"],
+    customerAction: ["api"],
+    api: ["controller"],
+    controller: ["service", "repository", "gateway"],
+    service: ["repository", "gateway"],
+    repository: [],
+    gateway: [],
+  },
+  allowSameType: true,
+}
+
+export type ConnectionCheck = { valid: true } | { valid: false; reason: string }
+
+function isBoardNodeType(value: unknown): value is BoardNodeType {
+  return BOARD_NODE_TYPES.includes(value as BoardNodeType)
+}
+
+/**
+ * Checks whether a source node may be connected to a target node. Calls
+ * between layers must use matching handles; same-type chains may use any.
+ */
+export function checkBoardConnection(
+  rules: ConnectionRuleSet,
+  sourceType: string | undefined,
+  targetType: string | undefined,
+  sourceHandle?: string | null,
+  targetHandle?: string | null
+): ConnectionCheck {
+  if (!sourceType || !targetType) {
+    return { valid: false, reason: "Both ends of a connection must be nodes" }
+  }
+
+  if (sourceType === targetType) {
+    return rules.allowSameType
+      ? { valid: true }
+      : { valid: false, reason: `${sourceType} nodes cannot be chained to each other` }
+  }
+
+  const allowedTargets = isBoardNodeType(sourceType) ? rules.allowedTargets[sourceType] : []
+  if (!isBoardNodeType(targetType) || !allowedTargets.includes(targetType)) {
+    return {
+      valid: false,
+      reason:
+        allowedTargets.length > 0
+          ? `${sourceType} cannot call ${targetType} (it can call ${allowedTargets.join(", ")})`
+          : `${sourceType} cannot call ${targetType} (it cannot call other layers)`,
+    }
+  }
+
+  if (sourceHandle !== targetHandle) {
+    return {
+      valid: false,
+      reason: `Connect ${sourceType} to ${targetType} with matching handles, e.g. bottom to top`,
+    }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Reads a stored rule set, dropping unknown node types and falling back to
+ * the defaults for anything missing.
+ */
+export function normalizeConnectionRules(value: unknown): ConnectionRuleSet {
+  const stored = (value && typeof value === "object" ? value : {}) as Partial<ConnectionRuleSet>
+  const storedTargets = (stored.allowedTargets && typeof stored.allowedTargets === "object"
+    ? stored.allowedTargets
+    : {}) as Partial<Record<BoardNodeType, unknown>>
+
+  const allowedTargets = Object.fromEntries(
+    BOARD_NODE_TYPES.map((type) => {
+      const targets = storedTargets[type]
+      return [
+        type,
+        Array.isArray(targets)
+          ? targets.filter((target): target is BoardNodeType => isBoardNodeType(target) && target !== type)
+          : DEFAULT_CONNECTION_RULES.allowedTargets[type],
+      ]
+    })
+  ) as Record<BoardNodeType, BoardNodeType[]>
+
+  return {
+    allowedTargets,
+    allowSameType:
+      typeof stored.allowSameType === "boolean" ? stored.allowSameType : DEFAULT_CONNECTION_RULES.allowSameType,
+  }
+}
@@ -0,0 +1,169 @@
+import { type Edge, type Node } from "reactflow"
+
+export interface HttpHeader {
+  key: string
+  value: string
+}
+
+// Normalized view of the HTTP details captured by ApiNode and GatewayNode
+export interface BoardEndpoint {
+  nodeId: string
+  kind: "api" | "gateway"
+  label: string
+  method: string
+  // URL as entered on the node, possibly absolute
+  url: string
+  // Origin of an absolute URL, e.g. "https://payments.example.com"
+  origin?: string
+  // Path with ":id" segments rewritten to "{id}"
+  path: string
+  pathParameters: string[]
+  requestHeaders: HttpHeader[]
+  requestBody: string
+  status: string
+  responseHeaders: HttpHeader[]
+  responseBody: string
+}
+
+function readHeaders(value: unknown): HttpHeader[] {
+  if (!Array.isArray(value)) {
+    return []
+  }
+  return value
+    .filter((header) => header && typeof header.key === "string" && header.key.trim())
+    .map((header) => ({ key: header.key.trim(), value: String(header.value ?? "") }))
+}
+
+/**
+ * Splits a node URL into origin and an OpenAPI-style path template
+ */
+export function parseEndpointUrl(url: string): { origin?: string; path: string; pathParameters: string[] } {
+  let origin: string | undefined
+  let path = url.trim() || "/"
+
+  const absolute = path.match(/^([a-z][a-z0-9+.-]*:\/\/[^/?#]+)(.*)$/i)
+  if (absolute) {
+    origin = absolute[1]
+    path = absolute[2] || "/"
+  }
+
+  path = path.split(/[?#]/)[0] || "/"
+  if (!path.startsWith("/")) {
+    path = `/${path}`
+  }
+
+  const pathParameters: string[] = []
+  path = path
+    .split("/")
+    .map((segment) => {
+      const match = segment.match(/^(?::(\w+)|\{(\w+)\})$/)
+      if (!match) return segment
+      const name = match[1] || match[2]
+      pathParameters.push(name)
+      return `{${name}}`
+    })
+    .join("/")
+
+  return { origin, path, pathParameters }
+}
+
+/**
+ * Reads an API or gateway node. Older boards stored the response status as
+ * `responseStatus` and gateway headers next to the payload, so both are accepted.
+ */
+export function readBoardEndpoint(node: Node): BoardEndpoint | null {
+  if (node.type !== "api" && node.type !== "gateway") {
+    return null
+  }
+
+  const data = node.data || {}
+  const payload = data.payload || {}
+  const url = String(payload.url || "")
+
+  return {
+    nodeId: node.id,
+    kind: node.type === "api" ? "api" : "gateway",
+    label: String(data.label || payload.label || (node.type === "api" ? "API" : "Gateway")),
+    method: String(payload.method || "GET").toUpperCase(),
+    url,
+    ...parseEndpointUrl(url),
+    requestHeaders: readHeaders(payload.requestHeaders ?? data.requestHeaders),
+    requestBody: String(payload.requestBody || ""),
+    status: String(payload.status || payload.responseStatus || "200"),
+    responseHeaders: readHeaders(payload.responseHeaders ?? data.responseHeaders),
+    responseBody: String(payload.responseBody || ""),
+  }
+}
+
+export function getBoardEndpoints(nodes: Node[]): BoardEndpoint[] {
+  return nodes
+    .map(readBoardEndpoint)
+    .filter((endpoint): endpoint is BoardEndpoint => endpoint !== null)
+}
+
+/**
+ * Walks incoming edges from a node and returns every BusinessFlow node it is
+ * reachable from, nearest first.
+ */
+export function getBusinessFlowAncestors(nodeId: string, nodes: Node[], edges: Edge[]): Node[] {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]))
+  const ancestors: Node[] = []
+  const visited = new Set<string>([nodeId])
+  const queue = [nodeId]
+
+  while (queue.length > 0) {
+    const currentId = queue.shift() as string
+    edges
+      .filter((edge) => edge.target === currentId && !visited.has(edge.source))
+      .forEach((edge) => {
+        visited.add(edge.source)
+        const sourceNode = nodesById.get(edge.source)
+        if (sourceNode?.type === "businessFlow") {
+          ancestors.push(sourceNode)
+        }
+        queue.push(edge.source)
+      })
+  }
+
+  return ancestors
+}
+
+/**
+ * Follows a BusinessFlow node into its CustomerAction nodes and returns one
+ * chain per path. Branches are taken in edge order and a node is never visited
+ * twice in the same chain.
+ */
+export function getCustomerActionChains(flowNodeId: string, nodes: Node[], edges: Edge[]): Node[][] {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]))
+  const chains: Node[][] = []
+  const nextActionIds = (nodeId: string) =>
+    edges
+      .filter((edge) => edge.source === nodeId && nodesById.get(edge.target)?.type === "customerAction")
+      .map((edge) => edge.target)
+
+  const walk = (nodeId: string, chain: Node[]) => {
+    const nextChain = [...chain, nodesById.get(nodeId) as Node]
+    const nextIds = nextActionIds(nodeId).filter((targetId) => !nextChain.some((visited) => visited.id === targetId))
+
+    if (nextIds.length === 0) {
+      chains.push(nextChain)
+      return
+    }
+    nextIds.forEach((targetId) => walk(targetId, nextChain))
+  }
+
+  nextActionIds(flowNodeId).forEach((actionId) => walk(actionId, []))
+  return chains
+}
+
+// Parse a body as JSON, or undefined when it is empty or not JSON
+export function parseJsonBody(body: string): unknown {
+  if (!body.trim()) {
+    return undefined
+  }
+  try {
+    return JSON.parse(body)
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,119 @@
+import { type Edge, type Node } from "reactflow"
+import { readBoardEndpoint, type BoardEndpoint } from "./boardEndpoints"
+import { findCycles } from "./flowchartValidation"
+
+export type BoardLintSeverity = "error" | "warning"
+
+export type BoardLintRuleId =
+  | "api-without-controller"
+  | "controller-without-downstream"
+  | "service-cycle"
+  | "unreachable-repository"
+  | "gateway-api-collision"
+
+export interface BoardLintIssue {
+  id: string
+  rule: BoardLintRuleId
+  severity: BoardLintSeverity
+  message: string
+  // Nodes to select when the issue is clicked
+  nodeIds: string[]
+}
+
+function describeNode(node: Node): string {
+  const label = String(node.data?.label || "").trim()
+  return label ? `"${label}"` : node.id
+}
+
+// Origins only matter when both URLs are absolute
+function isSameEndpoint(gateway: BoardEndpoint, api: BoardEndpoint): boolean {
+  return (
+    gateway.method === api.method &&
+    gateway.path === api.path &&
+    (!gateway.origin || !api.origin || gateway.origin === api.origin)
+  )
+}
+
+/**
+ * Audits a board against the layered architecture: every API is handled by a
+ * controller, controllers delegate downwards, services do not depend on each
+ * other in cycles, and every repository serves some business flow.
+ */
+export function lintBoard(nodes: Node[], edges: Edge[]): BoardLintIssue[] {
+  const issues: BoardLintIssue[] = []
+  const addIssue = (rule: BoardLintRuleId, severity: BoardLintSeverity, message: string, nodeIds: string[]) => {
+    issues.push({ id: `${rule}:${nodeIds.join(",")}`, rule, severity, message, nodeIds })
+  }
+
+  const nodesById = new Map(nodes.map((node) => [node.id, node]))
+  const validEdges = edges.filter((edge) => nodesById.has(edge.source) && nodesById.has(edge.target))
+  const targetTypes = (nodeId: string) =>
+    validEdges.filter((edge) => edge.source === nodeId).map((edge) => nodesById.get(edge.target)?.type)
+
+  // APIs nobody handles
+  nodes
+    .filter((node) => node.type === "api" && !targetTypes(node.id).includes("controller"))
+    .forEach((node) => {
+      addIssue("api-without-controller", "error", `API ${describeNode(node)} is not handled by a controller`, [node.id])
+    })
+
+  // Controllers that do the work themselves
+  nodes
+    .filter((node) => node.type === "controller")
+    .filter((node) => !targetTypes(node.id).some((type) => type === "service" || type === "repository"))
+    .forEach((node) => {
+      addIssue(
+        "controller-without-downstream",
+        "warning",
+        `Controller ${describeNode(node)} does not call a service or repository`,
+        [node.id]
+      )
+    })
+
+  // Services depending on each other in a loop
+  const serviceIds = nodes.filter((node) => node.type === "service").map((node) => node.id)
+  findCycles(serviceIds, validEdges).forEach((cycle) => {
+    const labels = cycle.map((nodeId) => describeNode(nodesById.get(nodeId) as Node)).join(" → ")
+    addIssue("service-cycle", "error", `Services call each other in a cycle: ${labels}`, cycle)
+  })
+
+  // Repositories no business flow leads to
+  const reachable = new Set<string>()
+  const queue = nodes.filter((node) => node.type === "businessFlow").map((node) => node.id)
+  while (queue.length > 0) {
+    const nodeId = queue.shift() as string
+    if (reachable.has(nodeId)) continue
+    reachable.add(nodeId)
+    validEdges.filter((edge) => edge.source === nodeId).forEach((edge) => queue.push(edge.target))
+  }
+  nodes
+    .filter((node) => node.type === "repository" && !reachable.has(node.id))
+    .forEach((node) => {
+      addIssue(
+        "unreachable-repository",
+        "warning",
+        `Repository ${describeNode(node)} is not reached from any business flow`,
+        [node.id]
+      )
+    })
+
+  // Gateways are for other systems; calling one of our own APIs through one is a mistake
+  const apiEndpoints = nodes.filter((node) => node.type === "api").map(readBoardEndpoint) as BoardEndpoint[]
+  nodes
+    .filter((node) => node.type === "gateway")
+    .forEach((node) => {
+      const gateway = readBoardEndpoint(node) as BoardEndpoint
+      apiEndpoints
+        .filter((api) => isSameEndpoint(gateway, api))
+        .forEach((api) => {
+          addIssue(
+            "gateway-api-collision",
+            "error",
+            `Gateway ${describeNode(node)} uses ${gateway.method} ${gateway.path}, which is also API "${api.label}"`,
+            [node.id, api.nodeId]
+          )
+        })
+    })
+
+  return issues
+}
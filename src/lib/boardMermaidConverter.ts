@@ -0,0 +1,158 @@
+import { type Node, type Edge } from "reactflow"
+import {
+  escapeLabel,
+  sanitizeNodeId,
+  type FlowchartMetadata,
+  type MermaidConversionOptions,
+} from "./mermaidConverter"
+import { readBoardEndpoint } from "./boardEndpoints"
+
+// Board layers, top to bottom, each rendered as a subgraph
+const BOARD_LAYERS = [
+  { id: "customer_layer", title: "Customer", types: ["businessFlow", "customerAction"] },
+  { id: "api_layer", title: "API", types: ["api"] },
+  { id: "controller_layer", title: "Controller", types: ["controller"] },
+  { id: "service_layer", title: "Service", types: ["service"] },
+  { id: "data_layer", title: "Data", types: ["repository"] },
+  { id: "external_layer", title: "External", types: ["gateway"] },
+]
+
+// Opening and closing brackets of each node type's Mermaid shape
+const BOARD_NODE_SHAPES: Record<string, [string, string]> = {
+  businessFlow: ["[[", "]]"],     // Subroutine
+  customerAction: ["(", ")"],     // Rounded rectangle
+  api: ["[/", "/]"],              // Parallelogram
+  controller: ["[", "]"],         // Rectangle
+  service: ["([", "])"],          // Stadium
+  repository: ["[(", ")]"],       // Cylinder
+  gateway: ["{{", "}}"],          // Hexagon
+}
+
+// Same fills as the Board's node colors
+const BOARD_NODE_STYLES: Record<string, string> = {
+  businessFlow: "fill:#dbeafe,stroke:#1d4ed8,color:#1d4ed8",
+  customerAction: "fill:#d1fae5,stroke:#15803d,color:#15803d",
+  api: "fill:#e9d5ff,stroke:#7e22ce,color:#7e22ce",
+  controller: "fill:#fed7aa,stroke:#c2410c,color:#c2410c",
+  service: "fill:#fecaca,stroke:#b91c1c,color:#b91c1c",
+  repository: "fill:#fef3c7,stroke:#a16207,color:#a16207",
+  gateway: "fill:#e0e7ff,stroke:#4338ca,color:#4338ca",
+}
+
+function getBoardNodeLabel(node: Node): string {
+  const label = String(node.data?.label || node.type || "Node")
+  const endpoint = readBoardEndpoint(node)
+  // Show the endpoint under API and gateway names
+  return endpoint && endpoint.url ? `${label}\n${endpoint.method} ${endpoint.url}` : label
+}
+
+function getBoardNodeDefinition(node: Node, mermaidId: string): string {
+  const [open, close] = BOARD_NODE_SHAPES[node.type || ""] || ["[", "]"]
+  return `${mermaidId}${open}"${escapeLabel(getBoardNodeLabel(node))}"${close}`
+}
+
+/**
+ * Converts an Interactive Board to a Mermaid flowchart with one subgraph per
+ * layer and a distinct shape for each node type
+ */
+export function convertBoardToMermaid(
+  nodes: Node[],
+  edges: Edge[],
+  metadata?: FlowchartMetadata,
+  options: MermaidConversionOptions = {}
+): string {
+  const { includeTitle = true, includeDescription = true, direction = "TD", theme } = options
+
+  let mermaidCode = `flowchart ${direction}\n`
+  if (includeTitle && metadata?.title) {
+    mermaidCode = `---\ntitle: ${metadata.title}\n---\n${mermaidCode}`
+  }
+
+  if (nodes.length === 0) {
+    mermaidCode += "    %% Empty board\n"
+    return mermaidCode
+  }
+
+  const nodeIdMap = new Map(nodes.map((node) => [node.id, sanitizeNodeId(node.id)]))
+  const layerTypes = BOARD_LAYERS.flatMap((layer) => layer.types)
+
+  BOARD_LAYERS.forEach((layer) => {
+    const layerNodes = nodes.filter((node) => layer.types.includes(node.type || ""))
+    if (layerNodes.length === 0) return
+
+    mermaidCode += `    subgraph ${layer.id} [${layer.title}]\n`
+    layerNodes.forEach((node) => {
+      mermaidCode += `        ${getBoardNodeDefinition(node, nodeIdMap.get(node.id) as string)}\n`
+    })
+    mermaidCode += "    end\n"
+  })
+
+  // Nodes of unknown types are kept outside the layers
+  nodes
+    .filter((node) => !layerTypes.includes(node.type || ""))
+    .forEach((node) => {
+      mermaidCode += `    ${getBoardNodeDefinition(node, nodeIdMap.get(node.id) as string)}\n`
+    })
+
+  const connections = edges
+    .filter((edge) => nodeIdMap.has(edge.source) && nodeIdMap.has(edge.target))
+    .map((edge) => {
+      const sourceId = nodeIdMap.get(edge.source)
+      const targetId = nodeIdMap.get(edge.target)
+      return edge.label
+        ? `    ${sourceId} -->|${escapeLabel(String(edge.label))}| ${targetId}`
+        : `    ${sourceId} --> ${targetId}`
+    })
+  if (connections.length > 0) {
+    mermaidCode += `\n${connections.join("\n")}\n`
+  }
+
+  // Color nodes like the Board does
+  const styledTypes = Object.keys(BOARD_NODE_STYLES).filter((type) => nodes.some((node) => node.type === type))
+  if (styledTypes.length > 0) {
+    mermaidCode += "\n"
+    styledTypes.forEach((type) => {
+      const ids = nodes.filter((node) => node.type === type).map((node) => nodeIdMap.get(node.id))
+      mermaidCode += `    classDef ${type} ${BOARD_NODE_STYLES[type]}\n`
+      mermaidCode += `    class ${ids.join(",")} ${type}\n`
+    })
+  }
+
+  if (includeDescription && metadata?.description) {
+    mermaidCode += `\n    %% ${metadata.description}\n`
+  }
+
+  if (theme) {
+    mermaidCode += `\n%%{init: {'theme':'${theme}'}}%%\n`
+  }
+
+  return mermaidCode
+}
+
+/**
+ * Validates if a board can be converted to Mermaid
+ */
+export function validateBoardForMermaid(nodes: Node[], edges: Edge[]): {
+  isValid: boolean
+  warnings: string[]
+  errors: string[]
+} {
+  const warnings: string[] = []
+
+  if (nodes.length === 0) {
+    warnings.push("Board is empty")
+  }
+
+  const connectedNodeIds = new Set(edges.flatMap((edge) => [edge.source, edge.target]))
+  const disconnectedNodes = nodes.filter((node) => !connectedNodeIds.has(node.id))
+  if (disconnectedNodes.length > 0) {
+    warnings.push(`${disconnectedNodes.length} disconnected node(s) found`)
+  }
+
+  const unknownNodes = nodes.filter((node) => !BOARD_NODE_SHAPES[node.type || ""])
+  if (unknownNodes.length > 0) {
+    warnings.push(`${unknownNodes.length} node(s) of unknown type are drawn as plain rectangles outside the layers`)
+  }
+
+  return { isValid: true, warnings, errors: [] }
+}
@@ -0,0 +1,355 @@
+import { type Edge, type Node, type XYPosition } from "reactflow"
+import { type HttpHeader } from "./boardEndpoints"
+
+export type BoardNodeType =
+  | "businessFlow"
+  | "customerAction"
+  | "api"
+  | "controller"
+  | "service"
+  | "repository"
+  | "gateway"
+
+// In the order the layers appear on a board, top to bottom
+export const BOARD_NODE_TYPES: BoardNodeType[] = [
+  "businessFlow",
+  "customerAction",
+  "api",
+  "controller",
+  "service",
+  "repository",
+  "gateway",
+]
+
+export const HTTP_METHODS = ["GET", "POST", "PUT", "DELETE", "PATCH"] as const
+export const CUSTOMER_ACTION_TYPES = ["navigate", "click", "type", "selectOption", "see"] as const
+export const DATABASE_TYPES = ["PostgreSQL", "MongoDB"] as const
+export const REPOSITORY_ACTIONS = ["select", "insert/update", "delete"] as const
+
+export type HttpMethod = (typeof HTTP_METHODS)[number]
+export type CustomerActionType = (typeof CUSTOMER_ACTION_TYPES)[number]
+export type DatabaseType = (typeof DATABASE_TYPES)[number]
+export type RepositoryAction = (typeof REPOSITORY_ACTIONS)[number]
+
+export interface BusinessFlowPayload {
+  label: string
+  description: string
+}
+
+export interface CustomerActionPayload {
+  label: string
+  actionType: CustomerActionType
+  url: string
+  selector: string
+  text: string
+  value: string
+}
+
+// Shared by ApiNode and GatewayNode
+export interface HttpEndpointPayload {
+  label: string
+  url: string
+  method: HttpMethod
+  requestHeaders: HttpHeader[]
+  requestBody: string
+  status: string
+  responseHeaders: HttpHeader[]
+  responseBody: string
+}
+
+// Shared by ControllerNode and ServiceNode
+export interface ComponentPayload {
+  label: string
+  serviceName: string
+  description: string
+  // Free text, e.g. "ApiService, Logger"
+  dependencies: string
+}
+
+export interface RepositoryPayload {
+  label: string
+  database: DatabaseType
+  schema: string
+  action: RepositoryAction
+  query: string
+}
+
+export interface BoardPayloads {
+  businessFlow: BusinessFlowPayload
+  customerAction: CustomerActionPayload
+  api: HttpEndpointPayload
+  controller: ComponentPayload
+  service: ComponentPayload
+  repository: RepositoryPayload
+  gateway: HttpEndpointPayload
+}
+
+export type BoardNodeData = {
+  [Type in BoardNodeType]: {
+    nodeType: Type
+    label: string
+    payload: BoardPayloads[Type]
+    onUpdate?: (id: string, updates: object) => void
+  }
+}[BoardNodeType]
+
+// Something an import had to fix or drop; nodeId is missing for file-level problems
+export interface BoardImportIssue {
+  nodeId?: string
+  severity: "error" | "warning"
+  message: string
+}
+
+export class BoardImportError extends Error {
+  constructor(message: string, cause?: Error) {
+    super(message, { cause })
+    this.name = "BoardImportError"
+  }
+}
+
+type RawObject = Record<string, unknown>
+
+function asObject(value: unknown): RawObject | undefined {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as RawObject) : undefined
+}
+
+/**
+ * Default payload of a new node, as created from the Board's toolbar
+ */
+export function createDefaultPayload<Type extends BoardNodeType>(type: Type, label: string): BoardPayloads[Type] {
+  const httpDefaults: HttpEndpointPayload = {
+    label,
+    url: "/api/v1/",
+    method: "GET",
+    requestHeaders: [{ key: "Content-Type", value: "application/json" }],
+    requestBody: JSON.stringify({ data: "example" }, null, 2),
+    status: "200",
+    responseHeaders: [{ key: "Content-Type", value: "application/json" }],
+    responseBody: JSON.stringify({ message: "Success" }, null, 2),
+  }
+  const payloads: BoardPayloads = {
+    businessFlow: { label, description: "This flow outlines a core business process." },
+    customerAction: { label, actionType: "navigate", url: "https://example.com", selector: "", text: "", value: "" },
+    api: httpDefaults,
+    controller: { label, serviceName: "NewController", description: "This controller handles requests.", dependencies: "" },
+    service: { label, serviceName: "NewService", description: "This service handles business logic.", dependencies: "" },
+    repository: { label, database: "PostgreSQL", schema: "schema", action: "select", query: "SELECT * FROM users;" },
+    gateway: httpDefaults,
+  }
+  return payloads[type]
+}
+
+// Reads payload fields one at a time, falling back to defaults and noting every repair
+function createFieldReader(payload: RawObject, defaults: object, report: (message: string) => void) {
+  const fallback = defaults as RawObject
+
+  const text = (field: string, ...legacyFields: string[]): string => {
+    const value = [field, ...legacyFields].map((name) => payload[name]).find((item) => item !== undefined)
+    if (value === undefined || value === null) return fallback[field] as string
+    if (typeof value === "string") return value
+    if (typeof value === "number" || typeof value === "boolean") return String(value)
+    // Older boards stored dependencies as a list
+    if (Array.isArray(value) && value.every((item) => typeof item === "string")) return value.join(", ")
+    report(`${field} was not text and was reset`)
+    return fallback[field] as string
+  }
+
+  const choice = <Option extends string>(field: string, options: readonly Option[], ...legacyFields: string[]): Option => {
+    const value = text(field, ...legacyFields)
+    const match = options.find((option) => option.toLowerCase() === value.toLowerCase())
+    if (match) return match
+    report(`${field} "${value}" is not one of ${options.join(", ")}; reset to "${fallback[field]}"`)
+    return fallback[field] as Option
+  }
+
+  const headers = (field: string): HttpHeader[] => {
+    const value = payload[field]
+    if (value === undefined || value === null) return fallback[field] as HttpHeader[]
+    if (!Array.isArray(value)) {
+      report(`${field} was not a list and was reset`)
+      return fallback[field] as HttpHeader[]
+    }
+    const valid = value.filter((header) => typeof asObject(header)?.key === "string")
+    if (valid.length !== value.length) {
+      report(`${value.length - valid.length} malformed ${field} entr${value.length - valid.length === 1 ? "y was" : "ies were"} removed`)
+    }
+    return valid.map((header) => ({ key: header.key, value: header.value == null ? "" : String(header.value) }))
+  }
+
+  return { text, choice, headers }
+}
+
+/**
+ * Checks a payload against its node type, repairing what it can. Fields older
+ * boards stored elsewhere (responseStatus, databaseType, or next to the payload)
+ * are moved into place.
+ */
+export function repairBoardPayload<Type extends BoardNodeType>(
+  type: Type,
+  data: RawObject,
+  report: (message: string) => void
+): BoardPayloads[Type] {
+  let payload = asObject(data.payload)
+  if (data.payload !== undefined && !payload) {
+    report("payload was not an object and was reset")
+  }
+  // ControllerNode and ServiceNode used to save edits next to the payload, so those win
+  const componentEdits =
+    type === "controller" || type === "service"
+      ? Object.fromEntries(
+          ["serviceName", "description", "dependencies"]
+            .filter((field) => data[field] !== undefined)
+            .map((field) => [field, data[field]])
+        )
+      : {}
+  payload = { ...data, ...(payload || {}), ...componentEdits }
+
+  const label = typeof data.label === "string" ? data.label : String(payload.label ?? "")
+  const defaults = createDefaultPayload(type, label)
+  const read = createFieldReader(payload, defaults, report)
+
+  const payloads: { [Key in BoardNodeType]: () => BoardPayloads[Key] } = {
+    businessFlow: () => ({ label, description: read.text("description") }),
+    customerAction: () => ({
+      label,
+      actionType: read.choice("actionType", CUSTOMER_ACTION_TYPES),
+      url: read.text("url"),
+      selector: read.text("selector"),
+      text: read.text("text"),
+      value: read.text("value"),
+    }),
+    api: () => readHttpPayload(),
+    gateway: () => readHttpPayload(),
+    controller: () => readComponentPayload(),
+    service: () => readComponentPayload(),
+    repository: () => ({
+      label,
+      database: read.choice("database", DATABASE_TYPES, "databaseType"),
+      schema: read.text("schema"),
+      action: read.choice("action", REPOSITORY_ACTIONS),
+      query: read.text("query"),
+    }),
+  }
+
+  function readHttpPayload(): HttpEndpointPayload {
+    return {
+      label,
+      url: read.text("url"),
+      method: read.choice("method", HTTP_METHODS),
+      requestHeaders: read.headers("requestHeaders"),
+      requestBody: read.text("requestBody"),
+      status: read.text("status", "responseStatus"),
+      responseHeaders: read.headers("responseHeaders"),
+      responseBody: read.text("responseBody"),
+    }
+  }
+
+  function readComponentPayload(): ComponentPayload {
+    return {
+      label,
+      serviceName: read.text("serviceName"),
+      description: read.text("description"),
+      dependencies: read.text("dependencies"),
+    }
+  }
+
+  return payloads[type]()
+}
+
+function isBoardNodeType(value: unknown): value is BoardNodeType {
+  return BOARD_NODE_TYPES.includes(value as BoardNodeType)
+}
+
+function readPosition(value: unknown, index: number, report: (message: string) => void): XYPosition {
+  const position = asObject(value)
+  if (position && Number.isFinite(position.x) && Number.isFinite(position.y)) {
+    return { x: position.x as number, y: position.y as number }
+  }
+  report("position was missing and the node was placed on a grid")
+  return { x: 100 + (index % 4) * 380, y: 100 + Math.floor(index / 4) * 650 }
+}
+
+/**
+ * Validates an exported board file. Nodes of unknown types and edges between
+ * missing nodes are dropped; everything else is repaired with defaults. Every
+ * change is listed in issues.
+ */
+export function validateBoardImport(data: unknown): { nodes: Node<BoardNodeData>[]; edges: Edge[]; issues: BoardImportIssue[] } {
+  const file = asObject(data)
+  if (!file || !Array.isArray(file.nodes)) {
+    throw new BoardImportError("The file is not a board export: it has no list of nodes")
+  }
+
+  const issues: BoardImportIssue[] = []
+  const nodes: Node<BoardNodeData>[] = []
+  const usedIds = new Set<string>()
+
+  file.nodes.forEach((rawNode, index) => {
+    const node = asObject(rawNode)
+    const rawId = node && typeof node.id === "string" && node.id ? node.id : undefined
+    const describe = rawId ? `Node ${rawId}` : `Node #${index + 1}`
+
+    if (!node) {
+      issues.push({ severity: "error", message: `${describe} is not an object and was skipped` })
+      return
+    }
+    if (!isBoardNodeType(node.type)) {
+      issues.push({ nodeId: rawId, severity: "error", message: `${describe} has unknown type "${String(node.type)}" and was skipped` })
+      return
+    }
+
+    let id = rawId || `${node.type}-${Date.now()}-${index}`
+    if (usedIds.has(id)) {
+      id = `${id}-${index}`
+      issues.push({ nodeId: id, severity: "warning", message: `${describe} duplicates another node's id and was renamed to ${id}` })
+    } else if (!rawId) {
+      issues.push({ nodeId: id, severity: "warning", message: `${describe} had no id and was given ${id}` })
+    }
+    usedIds.add(id)
+
+    const report = (message: string) => issues.push({ nodeId: id, severity: "warning", message: `${describe}: ${message}` })
+    const rawData = asObject(node.data) || {}
+    if (!asObject(node.data)) {
+      report("data was missing and defaults were used")
+    }
+    const label = typeof rawData.label === "string" ? rawData.label : String(node.type)
+
+    nodes.push({
+      id,
+      type: node.type,
+      position: readPosition(node.position, index, report),
+      data: {
+        nodeType: node.type,
+        label,
+        payload: repairBoardPayload(node.type, { ...rawData, label }, report),
+      } as BoardNodeData,
+    })
+  })
+
+  const edges: Edge[] = []
+  const rawEdges = file.edges === undefined ? [] : file.edges
+  if (!Array.isArray(rawEdges)) {
+    issues.push({ severity: "error", message: "edges was not a list; no connections were imported" })
+  } else {
+    rawEdges.forEach((rawEdge, index) => {
+      const edge = asObject(rawEdge)
+      if (!edge || typeof edge.source !== "string" || typeof edge.target !== "string") {
+        issues.push({ severity: "error", message: `Connection #${index + 1} has no source or target and was skipped` })
+        return
+      }
+      if (!usedIds.has(edge.source) || !usedIds.has(edge.target)) {
+        issues.push({
+          severity: "error",
+          message: `Connection ${edge.source} → ${edge.target} refers to a missing node and was skipped`,
+        })
+        return
+      }
+      edges.push({
+        ...(edge as unknown as Edge),
+        id: typeof edge.id === "string" && edge.id ? edge.id : `edge-${edge.source}-${edge.target}-${index}`,
+      })
+    })
+  }
+
+  return { nodes, edges, issues }
+}
@@ -0,0 +1,247 @@
+import { type Node, type Edge, type Viewport } from "reactflow"
+import {
+  getDefaultStorageAdapter,
+  migrateLocalStorageEntries,
+  type StorageAdapter,
+} from "./storageAdapters"
+import { compareFlowchartVersions } from "./flowchartMigrations"
+import { normalizeConnectionRules, type ConnectionRuleSet } from "./boardConnectionRules"
+
+// Stored envelope for the Interactive Board, shaped like FlowchartData
+export interface BoardData {
+  id: string
+  title: string
+  nodes: Node[]
+  edges: Edge[]
+  viewport?: Viewport
+  createdAt: Date
+  updatedAt: Date
+  version: string
+}
+
+// Board documents live in their own namespace, apart from the flowchart library
+const BOARD_STORAGE_KEY = "interactive-board-data"
+const CONNECTION_RULES_STORAGE_KEY = "interactive-board-connection-rules"
+export const CURRENT_BOARD_VERSION = "1.0.0"
+
+export class BoardStorageError extends Error {
+  constructor(message: string, cause?: Error) {
+    super(message, { cause })
+    this.name = "BoardStorageError"
+  }
+}
+
+let storageAdapterPromise: Promise<StorageAdapter | null> | null = null
+
+// Use a specific storage backend instead of the default IndexedDB/localStorage pick
+export function setBoardStorageAdapter(adapter: StorageAdapter): void {
+  storageAdapterPromise = prepareStorageAdapter(Promise.resolve(adapter))
+}
+
+async function prepareStorageAdapter(
+  adapterPromise: Promise<StorageAdapter | null>
+): Promise<StorageAdapter | null> {
+  const adapter = await adapterPromise
+  if (!adapter) {
+    return null
+  }
+
+  try {
+    await migrateLocalStorageEntries(adapter, (key) => key === BOARD_STORAGE_KEY || key === CONNECTION_RULES_STORAGE_KEY)
+  } catch (error) {
+    console.error("Failed to migrate board from localStorage:", error)
+  }
+  return adapter
+}
+
+async function getStorage(): Promise<StorageAdapter> {
+  if (!storageAdapterPromise) {
+    storageAdapterPromise = prepareStorageAdapter(getDefaultStorageAdapter())
+  }
+
+  const adapter = await storageAdapterPromise
+  if (!adapter) {
+    throw new BoardStorageError("No storage is available in this browser")
+  }
+  return adapter
+}
+
+function generateId(): string {
+  return `board_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Serialize dates for storage. Node callbacks such as onUpdate are dropped by JSON.stringify.
+function serializeBoardData(data: BoardData): string {
+  return JSON.stringify({
+    ...data,
+    createdAt: data.createdAt.toISOString(),
+    updatedAt: data.updatedAt.toISOString(),
+  })
+}
+
+function deserializeBoardData(jsonString: string): BoardData {
+  const data = JSON.parse(jsonString)
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+  }
+}
+
+// Save the board, keeping the id and creation date of an existing save
+export async function saveBoardData(
+  nodes: Node[],
+  edges: Edge[],
+  existing?: Pick<BoardData, "id" | "createdAt">,
+  viewport?: Viewport
+): Promise<BoardData> {
+  const storage = await getStorage()
+
+  try {
+    const boardData: BoardData = {
+      id: existing?.id || generateId(),
+      title: "Interactive Board",
+      nodes,
+      edges,
+      viewport,
+      createdAt: existing?.createdAt || new Date(),
+      updatedAt: new Date(),
+      version: CURRENT_BOARD_VERSION,
+    }
+
+    const serializedData = serializeBoardData(boardData)
+    if (storage.maxItemSize !== undefined && new Blob([serializedData]).size > storage.maxItemSize) {
+      const limitInMb = Math.round(storage.maxItemSize / (1024 * 1024))
+      throw new BoardStorageError(`Board data is too large to save (exceeds ${limitInMb}MB)`)
+    }
+
+    await storage.setItem(BOARD_STORAGE_KEY, serializedData)
+    return boardData
+  } catch (error) {
+    if (error instanceof BoardStorageError) {
+      throw error
+    }
+
+    if (error instanceof Error && error.name === "QuotaExceededError") {
+      throw new BoardStorageError("Storage quota exceeded. Please clear some space and try again.")
+    }
+
+    throw new BoardStorageError("Failed to save board data", error as Error)
+  }
+}
+
+// Load the saved board, or null when nothing has been saved yet
+export async function loadBoardData(): Promise<BoardData | null> {
+  let storage: StorageAdapter
+  try {
+    storage = await getStorage()
+  } catch (error) {
+    console.warn((error as Error).message)
+    return null
+  }
+
+  const storedData = await storage.getItem(BOARD_STORAGE_KEY)
+  if (!storedData) {
+    return null
+  }
+
+  let boardData: BoardData
+  try {
+    boardData = deserializeBoardData(storedData)
+  } catch (error) {
+    throw new BoardStorageError("Failed to load board data. The stored data may be corrupted.", error as Error)
+  }
+
+  if (!boardData.id || !boardData.version || !Array.isArray(boardData.nodes) || !Array.isArray(boardData.edges)) {
+    throw new BoardStorageError("Invalid board data structure")
+  }
+
+  if (compareFlowchartVersions(boardData.version, CURRENT_BOARD_VERSION) > 0) {
+    throw new BoardStorageError(
+      `The board was saved by a newer version of the app (format ${boardData.version}). ` +
+      `This app supports up to format ${CURRENT_BOARD_VERSION}; please update it to open the board.`
+    )
+  }
+
+  return boardData
+}
+
+export async function clearBoardData(): Promise<void> {
+  const storage = await getStorage()
+  try {
+    await storage.removeItem(BOARD_STORAGE_KEY)
+  } catch (error) {
+    throw new BoardStorageError("Failed to clear board data", error as Error)
+  }
+}
+
+// Auto-save functionality with debouncing
+let autoSaveTimeout: ReturnType<typeof setTimeout> | null = null
+let pendingAutoSave: (() => Promise<void>) | null = null
+
+export function autoSaveBoardData(
+  nodes: Node[],
+  edges: Edge[],
+  existing?: Pick<BoardData, "id" | "createdAt">,
+  viewport?: Viewport,
+  delay: number = 2000
+): Promise<BoardData> {
+  return new Promise((resolve, reject) => {
+    if (autoSaveTimeout) {
+      clearTimeout(autoSaveTimeout)
+    }
+
+    pendingAutoSave = async () => {
+      autoSaveTimeout = null
+      pendingAutoSave = null
+      try {
+        resolve(await saveBoardData(nodes, edges, existing, viewport))
+      } catch (error) {
+        reject(error)
+      }
+    }
+
+    autoSaveTimeout = setTimeout(pendingAutoSave, delay)
+  })
+}
+
+// Run a pending auto-save immediately, e.g. before the page is hidden
+export async function flushBoardAutoSave(): Promise<void> {
+  if (autoSaveTimeout) {
+    clearTimeout(autoSaveTimeout)
+  }
+  await pendingAutoSave?.()
+}
+
+export async function saveConnectionRules(rules: ConnectionRuleSet): Promise<void> {
+  const storage = await getStorage()
+  try {
+    await storage.setItem(CONNECTION_RULES_STORAGE_KEY, JSON.stringify(rules))
+  } catch (error) {
+    throw new BoardStorageError("Failed to save connection rules", error as Error)
+  }
+}
+
+// Load the team's connection rules, or null when the defaults are in use
+export async function loadConnectionRules(): Promise<ConnectionRuleSet | null> {
+  const storage = await getStorage()
+  const storedRules = await storage.getItem(CONNECTION_RULES_STORAGE_KEY)
+  if (!storedRules) {
+    return null
+  }
+
+  try {
+    return normalizeConnectionRules(JSON.parse(storedRules))
+  } catch (error) {
+    throw new BoardStorageError("Failed to load connection rules. The stored rules may be corrupted.", error as Error)
+  }
+}
+
+export async function clearConnectionRules(): Promise<void> {
+  const storage = await getStorage()
+  try {
+    await storage.removeItem(CONNECTION_RULES_STORAGE_KEY)
+  } catch (error) {
+    throw new BoardStorageError("Failed to reset connection rules", error as Error)
+  }
+}
@@ -0,0 +1,124 @@
+import { type Edge, type Node } from "reactflow"
+import { CURRENT_FLOWCHART_VERSION, migrateFlowchartDocument } from "./flowchartMigrations"
+import { getAbsolutePosition } from "./flowchartSwimlanes"
+
+// Marker that distinguishes our payload from arbitrary text on the system clipboard
+const CLIPBOARD_PAYLOAD_TYPE = "ad4pt/flowchart-selection"
+
+export interface FlowchartClipboardPayload {
+  type: typeof CLIPBOARD_PAYLOAD_TYPE
+  version: string
+  nodes: Node[]
+  edges: Edge[]
+}
+
+// Drop runtime-only fields (callbacks, selection and measurement state).
+// Nodes copied without their lane are placed where they were drawn.
+function cleanNode(node: Node, copiedIds: Set<string>, nodes: Node[]): Node {
+  const data = { ...node.data }
+  delete data.onUpdate
+  const keepsParent = !!node.parentNode && copiedIds.has(node.parentNode)
+  return {
+    id: node.id,
+    type: node.type,
+    position: { ...(keepsParent ? node.position : getAbsolutePosition(node, nodes)) },
+    data,
+    ...(node.style ? { style: node.style } : {}),
+    ...(keepsParent ? { parentNode: node.parentNode } : {}),
+  }
+}
+
+function cleanEdge(edge: Edge): Edge {
+  const cleanedEdge = { ...edge }
+  delete cleanedEdge.selected
+  return cleanedEdge
+}
+
+/**
+ * Builds a clipboard payload from the selected nodes and the edges between them
+ */
+export function createClipboardPayload(nodes: Node[], edges: Edge[]): FlowchartClipboardPayload | null {
+  const selectedNodes = nodes.filter((node) => node.selected)
+  if (selectedNodes.length === 0) {
+    return null
+  }
+
+  const selectedIds = new Set(selectedNodes.map((node) => node.id))
+  const innerEdges = edges.filter((edge) => selectedIds.has(edge.source) && selectedIds.has(edge.target))
+
+  return {
+    type: CLIPBOARD_PAYLOAD_TYPE,
+    version: CURRENT_FLOWCHART_VERSION,
+    nodes: selectedNodes.map((node) => cleanNode(node, selectedIds, nodes)),
+    edges: innerEdges.map(cleanEdge),
+  }
+}
+
+export function serializeClipboardPayload(payload: FlowchartClipboardPayload): string {
+  return JSON.stringify(payload)
+}
+
+/**
+ * Reads a payload copied from this or another editor tab. Returns null for
+ * any other clipboard content.
+ */
+export function parseClipboardPayload(text: string | null | undefined): FlowchartClipboardPayload | null {
+  if (!text) {
+    return null
+  }
+
+  try {
+    const parsed = JSON.parse(text)
+    if (parsed?.type !== CLIPBOARD_PAYLOAD_TYPE || !Array.isArray(parsed.nodes) || !Array.isArray(parsed.edges)) {
+      return null
+    }
+
+    // Payloads from a tab running an older editor go through the same migrations as saved charts
+    return migrateFlowchartDocument(parsed as FlowchartClipboardPayload).document
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Creates fresh nodes and edges from a payload: ids are regenerated, positions
+ * offset, and the copies are marked as selected.
+ */
+export function instantiateClipboardPayload(
+  payload: FlowchartClipboardPayload,
+  createNodeId: (node: Node) => string,
+  offset: { x: number; y: number }
+): { nodes: Node[]; edges: Edge[] } {
+  const idMap = new Map<string, string>()
+
+  payload.nodes.forEach((node) => idMap.set(node.id, createNodeId(node)))
+
+  const nodes = payload.nodes.map((node) => {
+    // Children move with their copied lane, so only top-level nodes are offset
+    const parentNode = node.parentNode ? idMap.get(node.parentNode) : undefined
+    return {
+      ...node,
+      id: idMap.get(node.id) as string,
+      position: parentNode ? { ...node.position } : { x: node.position.x + offset.x, y: node.position.y + offset.y },
+      data: { ...node.data },
+      parentNode,
+      selected: true,
+    }
+  })
+
+  const edges = payload.edges
+    .filter((edge) => idMap.has(edge.source) && idMap.has(edge.target))
+    .map((edge) => {
+      const source = idMap.get(edge.source) as string
+      const target = idMap.get(edge.target) as string
+      return {
+        ...edge,
+        id: `e-${source}${edge.sourceHandle ?? ""}-${target}${edge.targetHandle ?? ""}`,
+        source,
+        target,
+        selected: true,
+      }
+    })
+
+  return { nodes, edges }
+}
@@ -0,0 +1,170 @@
+import { toPng, toSvg } from "html-to-image"
+import { type Edge, type Node, getNodesBounds } from "reactflow"
+
+export type ImageExportFormat = "svg" | "png"
+
+export interface ImageExportOptions {
+  format: ImageExportFormat
+  // Output size multiplier, e.g. 2 for slides on high density displays
+  scale: number
+  // Space around the exported nodes, in flowchart units
+  padding: number
+  background: "transparent" | "white"
+  includeTitle: boolean
+  selectionOnly: boolean
+}
+
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  format: "png",
+  scale: 2,
+  padding: 24,
+  background: "white",
+  includeTitle: false,
+  selectionOnly: false,
+}
+
+const TITLE_HEIGHT = 48
+const TITLE_FONT = "600 20px ui-sans-serif, system-ui, sans-serif"
+const TITLE_COLOR = "#111827"
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error("Failed to load rendered flowchart image"))
+    image.src = dataUrl
+  })
+}
+
+// Draw the title above the rendered PNG on a taller canvas
+async function addPngTitle(dataUrl: string, title: string, options: ImageExportOptions): Promise<string> {
+  const image = await loadImage(dataUrl)
+  const headerHeight = TITLE_HEIGHT * options.scale
+  const canvas = document.createElement("canvas")
+  canvas.width = image.width
+  canvas.height = image.height + headerHeight
+
+  const context = canvas.getContext("2d")
+  if (!context) {
+    throw new Error("Canvas rendering is not supported in this browser")
+  }
+
+  if (options.background === "white") {
+    context.fillStyle = "#ffffff"
+    context.fillRect(0, 0, canvas.width, canvas.height)
+  }
+  context.scale(options.scale, options.scale)
+  context.font = TITLE_FONT
+  context.fillStyle = TITLE_COLOR
+  context.textBaseline = "middle"
+  context.fillText(title, options.padding, TITLE_HEIGHT / 2 + options.padding / 2)
+  context.setTransform(1, 0, 0, 1, 0, 0)
+  context.drawImage(image, 0, headerHeight)
+
+  return canvas.toDataURL("image/png")
+}
+
+// Nest the rendered SVG below a text header inside a taller SVG
+function addSvgTitle(dataUrl: string, title: string, width: number, height: number, options: ImageExportOptions): string {
+  const innerSvg = decodeURIComponent(dataUrl.slice(dataUrl.indexOf(",") + 1))
+    .replace(/^<\?xml[^>]*>/, "")
+    .replace("<svg ", `<svg x="0" y="${TITLE_HEIGHT * options.scale}" `)
+  const totalHeight = height + TITLE_HEIGHT * options.scale
+  const background = options.background === "white"
+    ? `<rect width="100%" height="100%" fill="#ffffff"/>`
+    : ""
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${totalHeight}" viewBox="0 0 ${width} ${totalHeight}">` +
+    background +
+    `<text x="${options.padding * options.scale}" y="${((TITLE_HEIGHT + options.padding) / 2) * options.scale}" ` +
+    `dominant-baseline="middle" font-family="ui-sans-serif, system-ui, sans-serif" font-size="${20 * options.scale}" ` +
+    `font-weight="600" fill="${TITLE_COLOR}">${escapeXml(title)}</text>` +
+    innerSvg +
+    `</svg>`
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
+
+/**
+ * Renders the flowchart (or only the selected nodes and the edges between
+ * them) from ReactFlow's viewport element to an SVG or PNG data URL.
+ */
+export async function renderFlowchartImage(
+  viewportElement: HTMLElement,
+  nodes: Node[],
+  edges: Edge[],
+  options: ImageExportOptions,
+  title?: string
+): Promise<string> {
+  const exportedNodes = options.selectionOnly ? nodes.filter((node) => node.selected) : nodes
+  if (exportedNodes.length === 0) {
+    throw new Error(options.selectionOnly ? "Select nodes to export" : "The flowchart is empty")
+  }
+
+  const nodeIds = new Set(exportedNodes.map((node) => node.id))
+  const edgeIds = new Set(
+    edges
+      .filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+      .map((edge) => edge.id)
+  )
+
+  const bounds = getNodesBounds(exportedNodes)
+  const width = Math.ceil((bounds.width + options.padding * 2) * options.scale)
+  const height = Math.ceil((bounds.height + options.padding * 2) * options.scale)
+
+  // Keep only exported nodes and edges, and drop the selection box overlay
+  const filter = (element: HTMLElement) => {
+    const classList = element.classList
+    if (!classList) return true
+    if (classList.contains("react-flow__nodesselection")) return false
+    if (classList.contains("react-flow__node")) {
+      return nodeIds.has(element.getAttribute("data-id") || "")
+    }
+    if (classList.contains("react-flow__edge")) {
+      const testId = element.getAttribute("data-testid") || ""
+      return edgeIds.has(testId.replace(/^rf__edge-/, ""))
+    }
+    return true
+  }
+
+  const renderOptions = {
+    width,
+    height,
+    pixelRatio: 1,
+    backgroundColor: options.background === "white" ? "#ffffff" : undefined,
+    filter,
+    style: {
+      width: `${width}px`,
+      height: `${height}px`,
+      transform: `translate(${(options.padding - bounds.x) * options.scale}px, ${(options.padding - bounds.y) * options.scale}px) scale(${options.scale})`,
+    },
+  }
+
+  const headerTitle = options.includeTitle ? title?.trim() : undefined
+
+  if (options.format === "svg") {
+    const dataUrl = await toSvg(viewportElement, renderOptions)
+    return headerTitle ? addSvgTitle(dataUrl, headerTitle, width, height, options) : dataUrl
+  }
+
+  const dataUrl = await toPng(viewportElement, renderOptions)
+  return headerTitle ? addPngTitle(dataUrl, headerTitle, options) : dataUrl
+}
+
+export function downloadDataUrl(dataUrl: string, fileName: string): void {
+  const link = document.createElement("a")
+  link.href = dataUrl
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
@@ -0,0 +1,206 @@
+import { type Edge, type Node, type XYPosition } from "reactflow"
+import { type MermaidConversionOptions } from "./mermaidConverter"
+
+// Same directions as the Mermaid export so the canvas and the exported diagram agree
+export type LayoutDirection = NonNullable<MermaidConversionOptions["direction"]>
+
+export interface FlowchartLayoutOptions {
+  direction?: LayoutDirection
+  // Gap between nodes in the same layer
+  nodeSpacing?: number
+  // Gap between consecutive layers
+  rankSpacing?: number
+}
+
+// Fallback sizes for nodes that have not been measured by ReactFlow yet
+const DEFAULT_NODE_SIZES: Record<string, { width: number; height: number }> = {
+  startNode: { width: 120, height: 70 },
+  endNode: { width: 120, height: 70 },
+  processNode: { width: 160, height: 90 },
+  decisionNode: { width: 128, height: 128 },
+  connectorNode: { width: 32, height: 32 },
+  inputOutputNode: { width: 160, height: 80 },
+  documentNode: { width: 160, height: 80 },
+  subprocessNode: { width: 160, height: 80 },
+  databaseNode: { width: 160, height: 80 },
+  manualOperationNode: { width: 160, height: 80 },
+  delayNode: { width: 160, height: 80 },
+}
+
+// Decision branches are pulled to opposite sides of their parent
+const BRANCH_BIAS: Record<string, number> = {
+  "decision-yes": 0.5,
+  "decision-no": -0.5,
+}
+
+const ORDERING_SWEEPS = 4
+
+function getNodeSize(node: Node): { width: number; height: number } {
+  const fallback = DEFAULT_NODE_SIZES[node.type || ""] || { width: 150, height: 50 }
+  return {
+    width: node.width || fallback.width,
+    height: node.height || fallback.height,
+  }
+}
+
+/**
+ * Computes a layered (Sugiyama-style) layout for a flowchart and returns the
+ * new top-left position of every node.
+ */
+export function computeFlowchartLayout(
+  nodes: Node[],
+  edges: Edge[],
+  options: FlowchartLayoutOptions = {}
+): Map<string, XYPosition> {
+  const { direction = "TD", nodeSpacing = 60, rankSpacing = 90 } = options
+  const positions = new Map<string, XYPosition>()
+  if (nodes.length === 0) {
+    return positions
+  }
+
+  const nodeIds = new Set(nodes.map((node) => node.id))
+  const layoutEdges = edges.filter(
+    (edge) => edge.source !== edge.target && nodeIds.has(edge.source) && nodeIds.has(edge.target)
+  )
+
+  const outgoing = new Map<string, Edge[]>()
+  const indegree = new Map<string, number>()
+  nodes.forEach((node) => {
+    outgoing.set(node.id, [])
+    indegree.set(node.id, 0)
+  })
+  layoutEdges.forEach((edge) => {
+    outgoing.get(edge.source)?.push(edge)
+    indegree.set(edge.target, (indegree.get(edge.target) || 0) + 1)
+  })
+
+  // Walk from start nodes first so loops are broken at their back edges
+  const roots = [
+    ...nodes.filter((node) => node.type === "startNode" && node.data?.nodeType !== "end"),
+    ...nodes.filter((node) => indegree.get(node.id) === 0),
+    ...nodes,
+  ]
+
+  const backEdges = new Set<string>()
+  const discoveryOrder: string[] = []
+  const visited = new Set<string>()
+  const onStack = new Set<string>()
+
+  const visit = (nodeId: string) => {
+    visited.add(nodeId)
+    onStack.add(nodeId)
+    discoveryOrder.push(nodeId)
+    for (const edge of outgoing.get(nodeId) || []) {
+      if (onStack.has(edge.target)) {
+        backEdges.add(edge.id)
+      } else if (!visited.has(edge.target)) {
+        visit(edge.target)
+      }
+    }
+    onStack.delete(nodeId)
+  }
+
+  roots.forEach((node) => {
+    if (!visited.has(node.id)) {
+      visit(node.id)
+    }
+  })
+
+  const forwardEdges = layoutEdges.filter((edge) => !backEdges.has(edge.id))
+
+  // Longest-path layering over the acyclic part of the graph
+  const layerOf = new Map<string, number>()
+  const remainingIncoming = new Map<string, number>()
+  nodes.forEach((node) => remainingIncoming.set(node.id, 0))
+  forwardEdges.forEach((edge) => {
+    remainingIncoming.set(edge.target, (remainingIncoming.get(edge.target) || 0) + 1)
+  })
+
+  const queue = discoveryOrder.filter((nodeId) => remainingIncoming.get(nodeId) === 0)
+  queue.forEach((nodeId) => layerOf.set(nodeId, 0))
+  while (queue.length > 0) {
+    const nodeId = queue.shift() as string
+    for (const edge of forwardEdges.filter((candidate) => candidate.source === nodeId)) {
+      layerOf.set(edge.target, Math.max(layerOf.get(edge.target) || 0, (layerOf.get(nodeId) || 0) + 1))
+      const remaining = (remainingIncoming.get(edge.target) || 0) - 1
+      remainingIncoming.set(edge.target, remaining)
+      if (remaining === 0) {
+        queue.push(edge.target)
+      }
+    }
+  }
+
+  const layerCount = Math.max(...Array.from(layerOf.values())) + 1
+  const layers: string[][] = Array.from({ length: layerCount }, () => [])
+  discoveryOrder.forEach((nodeId) => layers[layerOf.get(nodeId) || 0].push(nodeId))
+
+  // Barycenter ordering within layers, biased so yes/no branches split sides
+  const orderIndex = new Map<string, number>()
+  const updateOrderIndex = () => {
+    layers.forEach((layer) => layer.forEach((nodeId, index) => orderIndex.set(nodeId, index)))
+  }
+  updateOrderIndex()
+
+  const incomingForward = new Map<string, Edge[]>()
+  forwardEdges.forEach((edge) => {
+    incomingForward.set(edge.target, [...(incomingForward.get(edge.target) || []), edge])
+  })
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    for (let layerIndex = 1; layerIndex < layers.length; layerIndex++) {
+      const barycenters = new Map<string, number>()
+      layers[layerIndex].forEach((nodeId) => {
+        const parents = incomingForward.get(nodeId) || []
+        if (parents.length === 0) {
+          barycenters.set(nodeId, orderIndex.get(nodeId) || 0)
+          return
+        }
+        const total = parents.reduce(
+          (sum, edge) => sum + (orderIndex.get(edge.source) || 0) + (BRANCH_BIAS[edge.sourceHandle || ""] || 0),
+          0
+        )
+        barycenters.set(nodeId, total / parents.length)
+      })
+      layers[layerIndex].sort((a, b) => (barycenters.get(a) || 0) - (barycenters.get(b) || 0))
+      updateOrderIndex()
+    }
+  }
+
+  // Assign coordinates along the rank (layer) axis and the cross axis
+  const isHorizontal = direction === "LR" || direction === "RL"
+  const nodesById = new Map(nodes.map((node) => [node.id, node]))
+  let rankOffset = 0
+
+  layers.forEach((layer) => {
+    const sizes = layer.map((nodeId) => getNodeSize(nodesById.get(nodeId) as Node))
+    const crossSizes = sizes.map((size) => (isHorizontal ? size.height : size.width))
+    const rankSize = Math.max(...sizes.map((size) => (isHorizontal ? size.width : size.height)))
+    const totalCross = crossSizes.reduce((sum, size) => sum + size, 0) + nodeSpacing * (layer.length - 1)
+
+    let crossOffset = -totalCross / 2
+    layer.forEach((nodeId, index) => {
+      const size = sizes[index]
+      // Center each node within its layer's band
+      const rankPosition = rankOffset + (rankSize - (isHorizontal ? size.width : size.height)) / 2
+      positions.set(nodeId, isHorizontal ? { x: rankPosition, y: crossOffset } : { x: crossOffset, y: rankPosition })
+      crossOffset += crossSizes[index] + nodeSpacing
+    })
+
+    rankOffset += rankSize + rankSpacing
+  })
+
+  // Mirror the rank axis for bottom-to-top and right-to-left layouts
+  if (direction === "BT" || direction === "RL") {
+    positions.forEach((position, nodeId) => {
+      const size = getNodeSize(nodesById.get(nodeId) as Node)
+      positions.set(
+        nodeId,
+        direction === "BT"
+          ? { x: position.x, y: -position.y - size.height }
+          : { x: -position.x - size.width, y: position.y }
+      )
+    })
+  }
+
+  return positions
+}
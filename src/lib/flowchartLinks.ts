@@ -0,0 +1,12 @@
+import { type Node } from "reactflow"
+
+// Subprocess nodes can stand for another flowchart in the library
+export const LINKED_FLOWCHART_NODE_TYPE = "subprocessNode"
+
+// Id of the flowchart a subprocess node opens, if it is linked to one
+export function getLinkedFlowchartId(node: Node): string | undefined {
+  if (node.type !== LINKED_FLOWCHART_NODE_TYPE || !node.data?.flowchartId) {
+    return undefined
+  }
+  return String(node.data.flowchartId)
+}
@@ -0,0 +1,106 @@
+import { type Edge, type Node } from "reactflow"
+
+// Version written by this editor. Every version before it must be reachable
+// through the migration chain below.
+export const CURRENT_FLOWCHART_VERSION = "1.1.0"
+
+// The parts of a stored or imported flowchart document that migrations touch
+export interface VersionedFlowchartDocument {
+  version: string
+  nodes: Node[]
+  edges: Edge[]
+}
+
+export interface FlowchartMigration {
+  from: string
+  to: string
+  description: string
+  migrate: <T extends VersionedFlowchartDocument>(document: T) => T
+}
+
+/**
+ * Registered migrations, applied in order from a document's version up to
+ * CURRENT_FLOWCHART_VERSION. Add a new entry whenever node or edge data shapes change.
+ */
+const FLOWCHART_MIGRATIONS: FlowchartMigration[] = [
+  {
+    from: "1.0.0",
+    to: "1.1.0",
+    description: "Attach yes/no source handles to decision edges that only carried a label",
+    migrate: (document) => {
+      const decisionNodes = new Map(
+        document.nodes
+          .filter((node) => node.type === "decisionNode")
+          .map((node) => [node.id, node])
+      )
+
+      const edges = document.edges.map((edge) => {
+        const decisionNode = decisionNodes.get(edge.source)
+        if (!decisionNode || edge.sourceHandle || typeof edge.label !== "string") {
+          return edge
+        }
+
+        const label = edge.label.trim().toLowerCase()
+        const yesLabel = String(decisionNode.data?.yesLabel || "Yes").trim().toLowerCase()
+        const noLabel = String(decisionNode.data?.noLabel || "No").trim().toLowerCase()
+
+        if (label === yesLabel) {
+          return { ...edge, sourceHandle: "decision-yes" }
+        }
+        if (label === noLabel) {
+          return { ...edge, sourceHandle: "decision-no" }
+        }
+        return edge
+      })
+
+      return { ...document, edges }
+    },
+  },
+]
+
+/**
+ * Compares two dotted version strings numerically
+ */
+export function compareFlowchartVersions(a: string, b: string): number {
+  const partsA = a.split(".").map((part) => parseInt(part, 10) || 0)
+  const partsB = b.split(".").map((part) => parseInt(part, 10) || 0)
+  const length = Math.max(partsA.length, partsB.length)
+
+  for (let i = 0; i < length; i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0)
+    if (difference !== 0) {
+      return difference
+    }
+  }
+  return 0
+}
+
+/**
+ * Upgrades a flowchart document to CURRENT_FLOWCHART_VERSION.
+ * Throws when the document is newer than this editor or no migration path exists.
+ */
+export function migrateFlowchartDocument<T extends VersionedFlowchartDocument>(document: T): {
+  document: T
+  appliedMigrations: FlowchartMigration[]
+} {
+  if (compareFlowchartVersions(document.version, CURRENT_FLOWCHART_VERSION) > 0) {
+    throw new Error(
+      `Flowchart version ${document.version} is newer than the supported version ${CURRENT_FLOWCHART_VERSION}`
+    )
+  }
+
+  let migratedDocument = document
+  const appliedMigrations: FlowchartMigration[] = []
+
+  while (migratedDocument.version !== CURRENT_FLOWCHART_VERSION) {
+    const migration = FLOWCHART_MIGRATIONS.find((entry) => entry.from === migratedDocument.version)
+    if (!migration) {
+      throw new Error(`No migration is registered for flowchart version ${migratedDocument.version}`)
+    }
+
+    migratedDocument = { ...migration.migrate(migratedDocument), version: migration.to }
+    appliedMigrations.push(migration)
+  }
+
+  return { document: migratedDocument, appliedMigrations }
+}
@@ -0,0 +1,138 @@
+import { type Edge, type Node } from "reactflow"
+import { isEndNode, isStartNode } from "./flowchartValidation"
+
+// A connection the walkthrough can follow out of the current node
+export interface SimulationChoice {
+  edgeId: string
+  targetId: string
+  // Branch label for decisions, otherwise the edge label or the next node's label
+  label: string
+}
+
+export interface SimulationStep {
+  nodeId: string
+  label: string
+  // Set once the walkthrough leaves the node
+  edgeId?: string
+  // Branch taken out of a decision
+  choice?: string
+}
+
+// "dead-end" is a node that is not an end node but has nowhere to go
+export type ScenarioOutcome = "end" | "dead-end"
+
+export interface FlowchartScenario {
+  id: number
+  steps: SimulationStep[]
+  outcome: ScenarioOutcome
+}
+
+function getLabel(node: Node): string {
+  return String(node.data?.label || "").trim() || node.id
+}
+
+export function getSimulationStartNodes(nodes: Node[]): Node[] {
+  return nodes.filter(isStartNode)
+}
+
+export function createSimulationStep(node: Node): SimulationStep {
+  return { nodeId: node.id, label: getLabel(node) }
+}
+
+/**
+ * Connections out of a node, decisions listing their yes branch before
+ * their no branch
+ */
+export function getSimulationChoices(nodeId: string, nodes: Node[], edges: Edge[]): SimulationChoice[] {
+  const node = nodes.find((candidate) => candidate.id === nodeId)
+  if (!node || isEndNode(node)) {
+    return []
+  }
+
+  const nodesById = new Map(nodes.map((candidate) => [candidate.id, candidate]))
+  const branchLabels: Record<string, string> = {
+    "decision-yes": String(node.data?.yesLabel || "Yes"),
+    "decision-no": String(node.data?.noLabel || "No"),
+  }
+  const branchOrder = ["decision-yes", "decision-no"]
+
+  return edges
+    .filter((edge) => edge.source === nodeId && nodesById.has(edge.target))
+    .sort((a, b) =>
+      node.type === "decisionNode"
+        ? branchOrder.indexOf(a.sourceHandle || "") - branchOrder.indexOf(b.sourceHandle || "")
+        : 0
+    )
+    .map((edge) => {
+      const branchLabel = node.type === "decisionNode" ? branchLabels[edge.sourceHandle || ""] : undefined
+      return {
+        edgeId: edge.id,
+        targetId: edge.target,
+        label: branchLabel || (edge.label ? String(edge.label) : getLabel(nodesById.get(edge.target) as Node)),
+      }
+    })
+}
+
+/**
+ * How a walkthrough standing on the node ends, or undefined while it can go on
+ */
+export function getScenarioOutcome(nodeId: string, nodes: Node[], edges: Edge[]): ScenarioOutcome | undefined {
+  const node = nodes.find((candidate) => candidate.id === nodeId)
+  if (!node) {
+    return "dead-end"
+  }
+  if (isEndNode(node)) {
+    return "end"
+  }
+  return getSimulationChoices(nodeId, nodes, edges).length === 0 ? "dead-end" : undefined
+}
+
+/**
+ * Adds a finished walkthrough to the list unless the same path was already recorded
+ */
+export function recordScenario(
+  scenarios: FlowchartScenario[],
+  steps: SimulationStep[],
+  outcome: ScenarioOutcome
+): FlowchartScenario[] {
+  const pathKey = (path: SimulationStep[]) => path.map((step) => `${step.nodeId}:${step.edgeId ?? ""}`).join("|")
+  const key = pathKey(steps)
+  if (scenarios.some((scenario) => pathKey(scenario.steps) === key)) {
+    return scenarios
+  }
+  const id = Math.max(0, ...scenarios.map((scenario) => scenario.id)) + 1
+  return [...scenarios, { id, steps, outcome }]
+}
+
+// "Approved? → Yes, In stock? → No", or the first and last step when no decision was made
+export function describeScenario(scenario: FlowchartScenario): string {
+  const decisions = scenario.steps.filter((step) => step.choice)
+  if (decisions.length > 0) {
+    return decisions.map((step) => `${step.label} → ${step.choice}`).join(", ")
+  }
+  const last = scenario.steps[scenario.steps.length - 1]
+  return scenario.steps.length > 1 ? `${scenario.steps[0].label} → ${last.label}` : last?.label || ""
+}
+
+/**
+ * Renders recorded walkthroughs as a Markdown scenario list
+ */
+export function formatScenarioList(scenarios: FlowchartScenario[], title: string): string {
+  const lines = [`# ${title || "Flowchart"} scenarios`, ""]
+  if (scenarios.length === 0) {
+    lines.push("_No scenarios recorded yet._")
+  }
+
+  scenarios.forEach((scenario) => {
+    lines.push(`## Scenario ${scenario.id}: ${describeScenario(scenario)}`, "")
+    scenario.steps.forEach((step, index) => {
+      lines.push(`${index + 1}. ${step.label}${step.choice ? ` → **${step.choice}**` : ""}`)
+    })
+    if (scenario.outcome === "dead-end") {
+      lines.push("", "_Stops before reaching an end node._")
+    }
+    lines.push("")
+  })
+
+  return lines.join("\n")
+}
@@ -1,4 +1,15 @@
 import { type Node, type Edge } from "reactflow"
+import {
+  getDefaultStorageAdapter,
+  migrateLocalStorageEntries,
+  type StorageAdapter,
+} from "./storageAdapters"
+import {
+  CURRENT_FLOWCHART_VERSION,
+  compareFlowchartVersions,
+  migrateFlowchartDocument,
+} from "./flowchartMigrations"
+import { getLinkedFlowchartId } from "./flowchartLinks"
 
 export interface FlowchartData {
   id: string
@@ -18,8 +29,23 @@ export interface FlowchartMetadata {
   updatedAt: Date
 }
 
+// Lightweight entry kept in the library index so the sidebar can list
+// flowcharts without loading every document
+export interface FlowchartSummary {
+  id: string
+  title: string
+  description?: string
+  nodeCount: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Legacy single-slot key used before the flowchart library existed
 const STORAGE_KEY = "flowchart-editor-data"
-const CURRENT_VERSION = "1.0.0"
+const LIBRARY_INDEX_KEY = "flowchart-library-index"
+const LIBRARY_DOCUMENT_PREFIX = "flowchart-library-document:"
+const LAST_OPENED_KEY = "flowchart-library-last-opened"
+const CURRENT_VERSION = CURRENT_FLOWCHART_VERSION
 
 // Error types for better error handling
 export class FlowchartStorageError extends Error {
@@ -29,16 +55,72 @@ export class FlowchartStorageError extends Error {
   }
 }
 
-// Check if localStorage is available
-function isLocalStorageAvailable(): boolean {
+let storageAdapterPromise: Promise<StorageAdapter | null> | null = null
+
+// Use a specific storage backend instead of the default IndexedDB/localStorage pick
+export function setFlowchartStorageAdapter(adapter: StorageAdapter): void {
+  storageAdapterPromise = prepareStorageAdapter(Promise.resolve(adapter))
+}
+
+// Run one-time migrations before the adapter is handed out
+async function prepareStorageAdapter(
+  adapterPromise: Promise<StorageAdapter | null>
+): Promise<StorageAdapter | null> {
+  const adapter = await adapterPromise
+  if (!adapter) {
+    return null
+  }
+
   try {
-    const test = "__localStorage_test__"
-    localStorage.setItem(test, test)
-    localStorage.removeItem(test)
-    return true
-  } catch {
-    return false
+    await migrateLocalStorageEntries(adapter, isFlowchartStorageKey, (key, targetValue, sourceValue) =>
+      key === LIBRARY_INDEX_KEY ? mergeLibraryIndexes(targetValue, sourceValue) : null
+    )
+  } catch (error) {
+    console.error("Failed to migrate flowcharts from localStorage:", error)
   }
+  await migrateLegacyFlowchartData(adapter)
+  return adapter
+}
+
+// Combine two stored library indexes, keeping the newer entry for each id.
+// Returns null when either index cannot be read.
+function mergeLibraryIndexes(targetValue: string, sourceValue: string): string | null {
+  try {
+    const entries = [...JSON.parse(targetValue), ...JSON.parse(sourceValue)] as Array<{ id: string; updatedAt: string }>
+    const newest = new Map<string, { id: string; updatedAt: string }>()
+    entries.forEach((entry) => {
+      const current = newest.get(entry.id)
+      if (!current || new Date(entry.updatedAt).getTime() > new Date(current.updatedAt).getTime()) {
+        newest.set(entry.id, entry)
+      }
+    })
+    return JSON.stringify([...newest.values()])
+  } catch (error) {
+    console.error("Failed to merge flowchart library indexes:", error)
+    return null
+  }
+}
+
+function isFlowchartStorageKey(key: string): boolean {
+  return (
+    key === STORAGE_KEY ||
+    key === LIBRARY_INDEX_KEY ||
+    key === LAST_OPENED_KEY ||
+    key.startsWith(LIBRARY_DOCUMENT_PREFIX)
+  )
+}
+
+// Resolve the active storage backend or fail with a storage error
+async function getStorage(): Promise<StorageAdapter> {
+  if (!storageAdapterPromise) {
+    storageAdapterPromise = prepareStorageAdapter(getDefaultStorageAdapter())
+  }
+
+  const adapter = await storageAdapterPromise
+  if (!adapter) {
+    throw new FlowchartStorageError("No storage is available in this browser")
+  }
+  return adapter
 }
 
 // Generate unique ID for flowcharts
@@ -46,6 +128,10 @@ function generateId(): string {
   return `flowchart_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 }
 
+function getDocumentKey(id: string): string {
+  return `${LIBRARY_DOCUMENT_PREFIX}${id}`
+}
+
 // Serialize dates for storage
 function serializeFlowchartData(data: FlowchartData): string {
   return JSON.stringify({
@@ -65,16 +151,148 @@ function deserializeFlowchartData(jsonString: string): FlowchartData {
   }
 }
 
-// Save flowchart data to localStorage
-export function saveFlowchartData(
+// Run registered migrations so callers only ever see the current schema
+function upgradeFlowchartData(data: FlowchartData): FlowchartData {
+  if (compareFlowchartVersions(data.version, CURRENT_VERSION) > 0) {
+    throw new FlowchartStorageError(
+      `"${data.title}" was saved by a newer version of the editor (format ${data.version}). ` +
+      `This editor supports up to format ${CURRENT_VERSION}; please update the app to open it.`
+    )
+  }
+
+  try {
+    return migrateFlowchartDocument(data).document
+  } catch (error) {
+    throw new FlowchartStorageError(`Failed to upgrade flowchart from format ${data.version}`, error as Error)
+  }
+}
+
+function toSummary(data: FlowchartData): FlowchartSummary {
+  return {
+    id: data.id,
+    title: data.title,
+    description: data.description,
+    nodeCount: data.nodes.length,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+  }
+}
+
+// Read the library index, newest first
+async function readLibraryIndex(storage: StorageAdapter): Promise<FlowchartSummary[]> {
+  const storedIndex = await storage.getItem(LIBRARY_INDEX_KEY)
+  if (!storedIndex) {
+    return []
+  }
+
+  try {
+    const entries = JSON.parse(storedIndex) as Array<Omit<FlowchartSummary, "createdAt" | "updatedAt"> & {
+      createdAt: string
+      updatedAt: string
+    }>
+    return entries
+      .map((entry) => ({
+        ...entry,
+        createdAt: new Date(entry.createdAt),
+        updatedAt: new Date(entry.updatedAt),
+      }))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+  } catch (error) {
+    console.error("Failed to read flowchart library index:", error)
+    return []
+  }
+}
+
+async function writeLibraryIndex(storage: StorageAdapter, entries: FlowchartSummary[]): Promise<void> {
+  await storage.setItem(
+    LIBRARY_INDEX_KEY,
+    JSON.stringify(
+      entries.map((entry) => ({
+        ...entry,
+        createdAt: entry.createdAt.toISOString(),
+        updatedAt: entry.updatedAt.toISOString(),
+      }))
+    )
+  )
+}
+
+async function upsertLibraryIndexEntry(storage: StorageAdapter, summary: FlowchartSummary): Promise<void> {
+  const entries = (await readLibraryIndex(storage)).filter((entry) => entry.id !== summary.id)
+  await writeLibraryIndex(storage, [summary, ...entries])
+}
+
+// Write a complete document and keep the library index in sync
+async function writeFlowchartDocument(storage: StorageAdapter, flowchartData: FlowchartData): Promise<void> {
+  const serializedData = serializeFlowchartData(flowchartData)
+
+  // Check storage quota of size-limited backends
+  if (storage.maxItemSize !== undefined) {
+    const currentSize = new Blob([serializedData]).size
+    if (currentSize > storage.maxItemSize) {
+      const limitInMb = Math.round(storage.maxItemSize / (1024 * 1024))
+      throw new FlowchartStorageError(`Flowchart data is too large to save (exceeds ${limitInMb}MB)`)
+    }
+  }
+
+  await storage.setItem(getDocumentKey(flowchartData.id), serializedData)
+  await upsertLibraryIndexEntry(storage, toSummary(flowchartData))
+}
+
+// Read and validate a single document from the library
+async function readFlowchartDocument(storage: StorageAdapter, id: string): Promise<FlowchartData | null> {
+  const storedData = await storage.getItem(getDocumentKey(id))
+  if (!storedData) {
+    return null
+  }
+
+  const flowchartData = deserializeFlowchartData(storedData)
+
+  // Validate data structure
+  if (!flowchartData.id || !flowchartData.version || !Array.isArray(flowchartData.nodes) || !Array.isArray(flowchartData.edges)) {
+    throw new FlowchartStorageError("Invalid flowchart data structure")
+  }
+
+  // Upgrade older documents and store the result so the migration only runs once
+  if (flowchartData.version !== CURRENT_VERSION) {
+    const upgradedData = upgradeFlowchartData(flowchartData)
+    await writeFlowchartDocument(storage, upgradedData)
+    return upgradedData
+  }
+
+  return flowchartData
+}
+
+// Move a chart saved under the legacy single-slot key into the library
+async function migrateLegacyFlowchartData(storage: StorageAdapter): Promise<void> {
+  try {
+    const legacyData = await storage.getItem(STORAGE_KEY)
+    if (!legacyData) {
+      return
+    }
+
+    const flowchartData = deserializeFlowchartData(legacyData)
+    if (flowchartData.id && flowchartData.version && Array.isArray(flowchartData.nodes) && Array.isArray(flowchartData.edges)) {
+      if (!(await storage.getItem(getDocumentKey(flowchartData.id)))) {
+        await writeFlowchartDocument(storage, flowchartData)
+      }
+      if (!(await storage.getItem(LAST_OPENED_KEY))) {
+        await storage.setItem(LAST_OPENED_KEY, flowchartData.id)
+      }
+    }
+    await storage.removeItem(STORAGE_KEY)
+  } catch (error) {
+    console.error("Failed to migrate legacy flowchart data:", error)
+  }
+}
+
+// Save flowchart data to the library
+export async function saveFlowchartData(
   nodes: Node[],
   edges: Edge[],
   metadata: FlowchartMetadata,
   existingId?: string
-): FlowchartData {
-  if (!isLocalStorageAvailable()) {
-    throw new FlowchartStorageError("localStorage is not available in this browser")
-  }
+): Promise<FlowchartData> {
+  const storage = await getStorage()
 
   try {
     const flowchartData: FlowchartData = {
@@ -88,15 +306,8 @@ export function saveFlowchartData(
       version: CURRENT_VERSION,
     }
 
-    const serializedData = serializeFlowchartData(flowchartData)
-    
-    // Check storage quota
-    const currentSize = new Blob([serializedData]).size
-    if (currentSize > 5 * 1024 * 1024) { // 5MB limit
-      throw new FlowchartStorageError("Flowchart data is too large to save (exceeds 5MB)")
-    }
-
-    localStorage.setItem(STORAGE_KEY, serializedData)
+    await writeFlowchartDocument(storage, flowchartData)
+    await storage.setItem(LAST_OPENED_KEY, flowchartData.id)
     return flowchartData
   } catch (error) {
     if (error instanceof FlowchartStorageError) {
@@ -111,66 +322,171 @@ export function saveFlowchartData(
   }
 }
 
-// Load flowchart data from localStorage
-export function loadFlowchartData(): FlowchartData | null {
-  if (!isLocalStorageAvailable()) {
-    console.warn("localStorage is not available in this browser")
+// Load a flowchart from the library. Without an id, the last opened
+// (or most recently updated) flowchart is returned.
+export async function loadFlowchartData(id?: string): Promise<FlowchartData | null> {
+  let storage: StorageAdapter
+  try {
+    storage = await getStorage()
+  } catch (error) {
+    console.warn((error as Error).message)
+    return null
+  }
+
+  const flowchartId = id || (await storage.getItem(LAST_OPENED_KEY)) || (await readLibraryIndex(storage))[0]?.id
+  if (!flowchartId) {
     return null
   }
 
   try {
-    const storedData = localStorage.getItem(STORAGE_KEY)
-    if (!storedData) {
-      return null
+    const flowchartData = await readFlowchartDocument(storage, flowchartId)
+    if (flowchartData) {
+      await storage.setItem(LAST_OPENED_KEY, flowchartData.id)
+    }
+    return flowchartData
+  } catch (error) {
+    if (error instanceof FlowchartStorageError) {
+      throw error
     }
-
-    const flowchartData = deserializeFlowchartData(storedData)
     
-    // Validate data structure
-    if (!flowchartData.id || !flowchartData.version || !Array.isArray(flowchartData.nodes) || !Array.isArray(flowchartData.edges)) {
-      throw new FlowchartStorageError("Invalid flowchart data structure")
+    console.error("Failed to load flowchart data:", error)
+    // Only a document that is not valid JSON is cleared; storage failures
+    // such as a blocked database or a full quota may be temporary
+    if (error instanceof SyntaxError) {
+      await deleteFlowchart(flowchartId)
+      throw new FlowchartStorageError("Failed to load flowchart data. The stored data may be corrupted.", error)
+    }
+    throw new FlowchartStorageError("Failed to load flowchart data. Please try again.", error as Error)
+  }
+}
+
+// Load the flowcharts linked from subprocess nodes, and the ones those link
+// to in turn, keyed by id. Missing or unreadable flowcharts are left out.
+// Unlike loadFlowchartData this does not change the last opened flowchart.
+export async function loadLinkedFlowcharts(nodes: Node[]): Promise<Map<string, FlowchartData>> {
+  const linkedFlowcharts = new Map<string, FlowchartData>()
+  const storage = await getStorage()
+  const pending = nodes.map(getLinkedFlowchartId).filter((id): id is string => !!id)
+  const visited = new Set<string>()
+
+  while (pending.length > 0) {
+    const id = pending.shift() as string
+    if (visited.has(id)) {
+      continue
     }
+    visited.add(id)
 
-    // Handle version compatibility
-    if (flowchartData.version !== CURRENT_VERSION) {
-      console.warn(`Flowchart data version mismatch. Expected ${CURRENT_VERSION}, got ${flowchartData.version}`)
-      // For now, we'll try to load it anyway, but in the future we might need migration logic
+    try {
+      const flowchartData = await readFlowchartDocument(storage, id)
+      if (flowchartData) {
+        linkedFlowcharts.set(id, flowchartData)
+        pending.push(...flowchartData.nodes.map(getLinkedFlowchartId).filter((id): id is string => !!id))
+      }
+    } catch (error) {
+      console.warn(`Failed to load linked flowchart ${id}:`, error)
     }
+  }
 
-    return flowchartData
+  return linkedFlowcharts
+}
+
+// List all flowcharts in the library, most recently updated first
+export async function listFlowcharts(): Promise<FlowchartSummary[]> {
+  try {
+    return await readLibraryIndex(await getStorage())
+  } catch {
+    return []
+  }
+}
+
+// Rename a flowchart in the library without opening it
+export async function renameFlowchart(id: string, title: string): Promise<FlowchartSummary> {
+  const storage = await getStorage()
+  const flowchartData = await loadFlowchartDocumentOrThrow(storage, id)
+
+  try {
+    const renamedData: FlowchartData = {
+      ...flowchartData,
+      title,
+      updatedAt: new Date(),
+    }
+    await writeFlowchartDocument(storage, renamedData)
+    return toSummary(renamedData)
   } catch (error) {
     if (error instanceof FlowchartStorageError) {
       throw error
     }
-    
-    console.error("Failed to load flowchart data:", error)
-    // Clear corrupted data
-    localStorage.removeItem(STORAGE_KEY)
-    throw new FlowchartStorageError("Failed to load flowchart data. The stored data may be corrupted.", error as Error)
+    throw new FlowchartStorageError("Failed to rename flowchart", error as Error)
   }
 }
 
-// Clear flowchart data from localStorage
-export function clearFlowchartData(): void {
-  if (!isLocalStorageAvailable()) {
-    throw new FlowchartStorageError("localStorage is not available in this browser")
+// Copy a flowchart into a new library entry
+export async function duplicateFlowchart(id: string): Promise<FlowchartData> {
+  const storage = await getStorage()
+  const flowchartData = await loadFlowchartDocumentOrThrow(storage, id)
+
+  try {
+    const now = new Date()
+    const duplicatedData: FlowchartData = {
+      ...flowchartData,
+      id: generateId(),
+      title: `${flowchartData.title} (Copy)`,
+      createdAt: now,
+      updatedAt: now,
+    }
+    await writeFlowchartDocument(storage, duplicatedData)
+    return duplicatedData
+  } catch (error) {
+    if (error instanceof FlowchartStorageError) {
+      throw error
+    }
+    throw new FlowchartStorageError("Failed to duplicate flowchart", error as Error)
   }
+}
+
+// Remove a flowchart and its library entry
+export async function deleteFlowchart(id: string): Promise<void> {
+  const storage = await getStorage()
 
   try {
-    localStorage.removeItem(STORAGE_KEY)
+    await storage.removeItem(getDocumentKey(id))
+    await writeLibraryIndex(storage, (await readLibraryIndex(storage)).filter((entry) => entry.id !== id))
+    if ((await storage.getItem(LAST_OPENED_KEY)) === id) {
+      await storage.removeItem(LAST_OPENED_KEY)
+    }
   } catch (error) {
-    throw new FlowchartStorageError("Failed to clear flowchart data", error as Error)
+    throw new FlowchartStorageError("Failed to delete flowchart", error as Error)
   }
 }
 
-// Check if there's saved flowchart data
-export function hasSavedFlowchartData(): boolean {
-  if (!isLocalStorageAvailable()) {
-    return false
+async function loadFlowchartDocumentOrThrow(storage: StorageAdapter, id: string): Promise<FlowchartData> {
+  const flowchartData = await readFlowchartDocument(storage, id)
+  if (!flowchartData) {
+    throw new FlowchartStorageError(`Flowchart "${id}" was not found in the library`)
+  }
+  return flowchartData
+}
+
+// Clear flowchart data from storage. With an id, that flowchart is
+// removed from the library; otherwise only the last-opened pointer is reset.
+export async function clearFlowchartData(id?: string): Promise<void> {
+  if (id) {
+    await deleteFlowchart(id)
+    return
+  }
+
+  const storage = await getStorage()
+  try {
+    await storage.removeItem(LAST_OPENED_KEY)
+  } catch (error) {
+    throw new FlowchartStorageError("Failed to clear flowchart data", error as Error)
   }
+}
 
+// Check if there's saved flowchart data
+export async function hasSavedFlowchartData(): Promise<boolean> {
   try {
-    return localStorage.getItem(STORAGE_KEY) !== null
+    return (await readLibraryIndex(await getStorage())).length > 0
   } catch {
     return false
   }
@@ -178,6 +494,7 @@ export function hasSavedFlowchartData(): boolean {
 
 // Auto-save functionality with debouncing
 let autoSaveTimeout: NodeJS.Timeout | null = null
+let pendingAutoSave: (() => Promise<void>) | null = null
 
 export function autoSaveFlowchartData(
   nodes: Node[],
@@ -192,18 +509,39 @@ export function autoSaveFlowchartData(
       clearTimeout(autoSaveTimeout)
     }
 
-    // Set new timeout for auto-save
-    autoSaveTimeout = setTimeout(() => {
+    pendingAutoSave = async () => {
+      autoSaveTimeout = null
+      pendingAutoSave = null
       try {
-        const savedData = saveFlowchartData(nodes, edges, metadata, existingId)
+        const savedData = await saveFlowchartData(nodes, edges, metadata, existingId)
         resolve(savedData)
       } catch (error) {
         reject(error)
       }
-    }, delay)
+    }
+
+    // Set new timeout for auto-save
+    autoSaveTimeout = setTimeout(pendingAutoSave, delay)
   })
 }
 
+// Run a pending auto-save immediately, e.g. before switching flowcharts
+export async function flushAutoSave(): Promise<void> {
+  if (autoSaveTimeout) {
+    clearTimeout(autoSaveTimeout)
+  }
+  await pendingAutoSave?.()
+}
+
+// Drop a pending auto-save without writing it
+export function cancelAutoSave(): void {
+  if (autoSaveTimeout) {
+    clearTimeout(autoSaveTimeout)
+  }
+  autoSaveTimeout = null
+  pendingAutoSave = null
+}
+
 // Export flowchart data to file
 export function exportFlowchartToFile(data: FlowchartData): void {
   try {
@@ -244,8 +582,13 @@ export function importFlowchartFromFile(file: File): Promise<FlowchartData> {
           throw new FlowchartStorageError("Invalid flowchart file format")
         }
         
-        resolve(flowchartData)
+        // Files exported before versioning are treated as the first format
+        resolve(upgradeFlowchartData({ ...flowchartData, version: flowchartData.version || "1.0.0" }))
       } catch (error) {
+        if (error instanceof FlowchartStorageError) {
+          reject(error)
+          return
+        }
         reject(new FlowchartStorageError("Failed to import flowchart file", error as Error))
       }
     }
@@ -411,7 +754,8 @@ export function createNewFlowchart(template?: 'empty' | 'basic' | 'decision'): F
           animated: false,
           style: { stroke: '#374151', strokeWidth: 2 },
           markerEnd: { type: 'arrowclosed', color: '#374151', width: 20, height: 20 },
-          label: 'Yes'
+          label: 'Yes',
+          sourceHandle: 'decision-yes'
         },
         {
           id: 'e-decision-1-process-3',
@@ -421,7 +765,8 @@ export function createNewFlowchart(template?: 'empty' | 'basic' | 'decision'): F
           animated: false,
           style: { stroke: '#374151', strokeWidth: 2 },
           markerEnd: { type: 'arrowclosed', color: '#374151', width: 20, height: 20 },
-          label: 'No'
+          label: 'No',
+          sourceHandle: 'decision-no'
         },
         {
           id: 'e-process-2-end-4',
@@ -0,0 +1,110 @@
+import { type Node, type XYPosition } from "reactflow"
+import { STEP_NODE_TYPES } from "./flowchartValidation"
+
+export type SwimlaneOrientation = "horizontal" | "vertical"
+
+export const SWIMLANE_NODE_TYPE = "swimlaneNode"
+
+// Node types that can be placed in a lane
+export const SWIMLANE_CHILD_TYPES = [...STEP_NODE_TYPES, "decisionNode"]
+
+export const DEFAULT_SWIMLANE_SIZES: Record<SwimlaneOrientation, { width: number; height: number }> = {
+  horizontal: { width: 900, height: 220 },
+  vertical: { width: 280, height: 700 },
+}
+
+export function isSwimlaneNode(node: Node): boolean {
+  return node.type === SWIMLANE_NODE_TYPE
+}
+
+function getLaneSize(lane: Node): { width: number; height: number } {
+  const fallback = DEFAULT_SWIMLANE_SIZES[(lane.data?.orientation as SwimlaneOrientation) || "horizontal"]
+  return {
+    width: lane.width || Number(lane.style?.width) || fallback.width,
+    height: lane.height || Number(lane.style?.height) || fallback.height,
+  }
+}
+
+/**
+ * Position of a node on the canvas. Children of a lane store theirs
+ * relative to the lane.
+ */
+export function getAbsolutePosition(node: Node, nodes: Node[]): XYPosition {
+  const parent = node.parentNode ? nodes.find((candidate) => candidate.id === node.parentNode) : undefined
+  if (!parent) {
+    return node.position
+  }
+  const parentPosition = getAbsolutePosition(parent, nodes)
+  return { x: parentPosition.x + node.position.x, y: parentPosition.y + node.position.y }
+}
+
+/**
+ * Fills in positionAbsolute from the lane chain so bounds calculations see
+ * lane children where they are drawn
+ */
+export function withCanvasPositions(targetNodes: Node[], nodes: Node[]): Node[] {
+  return targetNodes.map((node) => ({ ...node, positionAbsolute: getAbsolutePosition(node, nodes) }))
+}
+
+// The topmost lane under a canvas point; later lanes are drawn above earlier ones
+function findLaneAt(point: XYPosition, nodes: Node[]): Node | undefined {
+  return nodes
+    .filter(isSwimlaneNode)
+    .reverse()
+    .find((lane) => {
+      const position = getAbsolutePosition(lane, nodes)
+      const { width, height } = getLaneSize(lane)
+      return point.x >= position.x && point.x <= position.x + width && point.y >= position.y && point.y <= position.y + height
+    })
+}
+
+/**
+ * Moves a node into the lane under its center, or out of its lane when it was
+ * dragged outside, keeping it at the same place on the canvas. Returns the
+ * node unchanged when its lane stays the same.
+ */
+export function assignNodeToLane(node: Node, nodes: Node[]): Node {
+  if (!SWIMLANE_CHILD_TYPES.includes(node.type || "")) {
+    return node
+  }
+
+  const absolute = getAbsolutePosition(node, nodes)
+  const center = { x: absolute.x + (node.width || 0) / 2, y: absolute.y + (node.height || 0) / 2 }
+  const lane = findLaneAt(center, nodes)
+  if (lane?.id === node.parentNode) {
+    return node
+  }
+
+  if (!lane) {
+    const detached = { ...node, position: absolute }
+    delete detached.parentNode
+    return detached
+  }
+  const lanePosition = getAbsolutePosition(lane, nodes)
+  return {
+    ...node,
+    parentNode: lane.id,
+    position: { x: absolute.x - lanePosition.x, y: absolute.y - lanePosition.y },
+  }
+}
+
+/**
+ * Takes nodes out of lanes that are being removed so they stay on the canvas
+ */
+export function detachFromLanes(nodes: Node[], laneIds: Set<string>): Node[] {
+  return nodes.map((node) => {
+    if (!node.parentNode || !laneIds.has(node.parentNode)) {
+      return node
+    }
+    const detached = { ...node, position: getAbsolutePosition(node, nodes) }
+    delete detached.parentNode
+    return detached
+  })
+}
+
+/**
+ * ReactFlow needs a parent before its children; lanes also belong behind the steps
+ */
+export function sortLanesFirst(nodes: Node[]): Node[] {
+  return [...nodes.filter(isSwimlaneNode), ...nodes.filter((node) => !isSwimlaneNode(node))]
+}
@@ -0,0 +1,186 @@
+import { type Edge, type Node } from "reactflow"
+import {
+  createSimulationStep,
+  describeScenario,
+  getScenarioOutcome,
+  getSimulationChoices,
+  getSimulationStartNodes,
+  type FlowchartScenario,
+  type SimulationStep,
+} from "./flowchartSimulation"
+
+export type TestCaseFormat = "markdown" | "csv"
+
+export interface PathEnumerationOptions {
+  // How many times a loop may be repeated after its first pass
+  maxLoopIterations?: number
+  // Enumeration stops here so branching loops cannot hang the editor
+  maxPaths?: number
+  // Limit on partial paths explored, for loops that never reach an end
+  maxSteps?: number
+}
+
+export interface PathEnumerationResult {
+  paths: FlowchartScenario[]
+  warnings: string[]
+}
+
+/**
+ * Lists every distinct path from a start node to where the flow stops,
+ * following decisions down both branches. Each node is entered at most
+ * maxLoopIterations + 1 times per path; paths that would go further are
+ * left out.
+ */
+export function enumerateFlowchartPaths(
+  nodes: Node[],
+  edges: Edge[],
+  { maxLoopIterations = 1, maxPaths = 500, maxSteps = 20000 }: PathEnumerationOptions = {}
+): PathEnumerationResult {
+  const warnings: string[] = []
+  const paths: FlowchartScenario[] = []
+  const nodesById = new Map(nodes.map((node) => [node.id, node]))
+  let cutAtLoopLimit = 0
+  let truncated = false
+  let steps = 0
+  let outOfSteps = false
+
+  const walk = (path: SimulationStep[], visits: Map<string, number>) => {
+    if (paths.length >= maxPaths) {
+      truncated = true
+      return
+    }
+    if (++steps > maxSteps) {
+      outOfSteps = true
+      return
+    }
+
+    const current = path[path.length - 1]
+    const outcome = getScenarioOutcome(current.nodeId, nodes, edges)
+    if (outcome) {
+      paths.push({ id: paths.length + 1, steps: path, outcome })
+      return
+    }
+
+    const currentNode = nodesById.get(current.nodeId) as Node
+    getSimulationChoices(current.nodeId, nodes, edges).forEach((choice) => {
+      const count = visits.get(choice.targetId) || 0
+      if (count > maxLoopIterations) {
+        cutAtLoopLimit++
+        return
+      }
+
+      const step = {
+        ...current,
+        edgeId: choice.edgeId,
+        choice: currentNode.type === "decisionNode" ? choice.label : undefined,
+      }
+      walk(
+        [...path.slice(0, -1), step, createSimulationStep(nodesById.get(choice.targetId) as Node)],
+        new Map(visits).set(choice.targetId, count + 1)
+      )
+    })
+  }
+
+  const startNodes = getSimulationStartNodes(nodes)
+  if (startNodes.length === 0) {
+    warnings.push("Flowchart has no start node")
+  }
+  startNodes.forEach((node) => walk([createSimulationStep(node)], new Map([[node.id, 1]])))
+
+  if (truncated) {
+    warnings.push(`Stopped after ${maxPaths} paths; lower the loop limit or split the flowchart`)
+  }
+  if (outOfSteps) {
+    warnings.push(`Stopped after exploring ${maxSteps} partial paths; some paths are missing, lower the loop limit or split the flowchart`)
+  }
+  if (cutAtLoopLimit > 0) {
+    warnings.push(
+      `${cutAtLoopLimit} branch${cutAtLoopLimit !== 1 ? "es" : ""} went past the loop limit of ${maxLoopIterations} and ${cutAtLoopLimit !== 1 ? "were" : "was"} left out`
+    )
+  }
+  const deadEnds = paths.filter((path) => path.outcome === "dead-end").length
+  if (deadEnds > 0) {
+    warnings.push(`${deadEnds} path${deadEnds !== 1 ? "s stop" : " stops"} at a node with no outgoing connection`)
+  }
+
+  return { paths, warnings }
+}
+
+// One column per decision, in the order decisions first appear on a path
+function getDecisionColumns(paths: FlowchartScenario[], nodes: Node[]): { nodeId: string; title: string }[] {
+  const nodeIds: string[] = []
+  paths.forEach((path) =>
+    path.steps.forEach((step) => {
+      if (step.choice && !nodeIds.includes(step.nodeId)) {
+        nodeIds.push(step.nodeId)
+      }
+    })
+  )
+  // Decisions never reached still get a column so the table shows them as uncovered
+  nodes
+    .filter((node) => node.type === "decisionNode" && !nodeIds.includes(node.id))
+    .forEach((node) => nodeIds.push(node.id))
+
+  const seen = new Map<string, number>()
+  return nodeIds.map((nodeId) => {
+    const label = String(nodes.find((node) => node.id === nodeId)?.data?.label || "").trim() || nodeId
+    const count = (seen.get(label) || 0) + 1
+    seen.set(label, count)
+    return { nodeId, title: count > 1 ? `${label} (${count})` : label }
+  })
+}
+
+function buildTestCaseRows(paths: FlowchartScenario[], nodes: Node[]): string[][] {
+  const columns = getDecisionColumns(paths, nodes)
+  const header = ["ID", "Scenario", ...columns.map((column) => column.title), "Steps", "Expected result"]
+  const rows = paths.map((path) => {
+    const last = path.steps[path.steps.length - 1]
+    return [
+      `TC-${String(path.id).padStart(3, "0")}`,
+      describeScenario(path),
+      // A decision inside a loop lists every branch taken, in order
+      ...columns.map((column) =>
+        path.steps
+          .filter((step) => step.nodeId === column.nodeId && step.choice)
+          .map((step) => step.choice)
+          .join(" → ")
+      ),
+      path.steps.map((step) => step.label).join(" → "),
+      path.outcome === "end" ? `Reaches "${last.label}"` : `Stops at "${last.label}" (no outgoing connection)`,
+    ]
+  })
+  return [header, ...rows]
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function toCsv(rows: string[][]): string {
+  const quote = (value: string) => {
+    const cell = FORMULA_PREFIX.test(value) ? `'${value}` : value
+    return /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+  }
+  return rows.map((row) => row.map(quote).join(",")).join("\n") + "\n"
+}
+
+function toMarkdown(rows: string[][], title: string): string {
+  const escape = (cell: string) => cell.replace(/\|/g, "\\|").replace(/\n/g, " ") || "—"
+  const [header, ...body] = rows
+  return [
+    `# ${title || "Flowchart"} test cases`,
+    "",
+    `| ${header.map(escape).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...body.map((row) => `| ${row.map(escape).join(" | ")} |`),
+    "",
+  ].join("\n")
+}
+
+/**
+ * Renders enumerated paths as a test-case table with the branch taken at
+ * every decision
+ */
+export function formatTestCases(paths: FlowchartScenario[], nodes: Node[], format: TestCaseFormat, title = ""): string {
+  const rows = buildTestCaseRows(paths, nodes)
+  return format === "csv" ? toCsv(rows) : toMarkdown(rows, title)
+}
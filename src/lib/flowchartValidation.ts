@@ -0,0 +1,251 @@
+import { type Edge, type Node } from "reactflow"
+import { getLinkedFlowchartId } from "./flowchartLinks"
+
+export type FlowchartIssueSeverity = "error" | "warning"
+
+export type FlowchartRuleId =
+  | "missing-start"
+  | "missing-end"
+  | "unreachable-end"
+  | "decision-missing-branch"
+  | "dead-end-process"
+  | "unintended-cycle"
+  | "duplicate-label"
+  | "missing-linked-flowchart"
+
+export interface FlowchartIssue {
+  id: string
+  rule: FlowchartRuleId
+  severity: FlowchartIssueSeverity
+  message: string
+  // Nodes to select when the issue is clicked; empty for chart-wide issues
+  nodeIds: string[]
+}
+
+// Single-step nodes the flow passes through on its way to an end
+export const STEP_NODE_TYPES = [
+  "processNode",
+  "inputOutputNode",
+  "documentNode",
+  "subprocessNode",
+  "databaseNode",
+  "manualOperationNode",
+  "delayNode",
+]
+
+export function isStartNode(node: Node): boolean {
+  return node.type === "startNode" && node.data?.nodeType !== "end"
+}
+
+export function isEndNode(node: Node): boolean {
+  return node.type === "endNode" || (node.type === "startNode" && node.data?.nodeType === "end")
+}
+
+function getLabel(node: Node): string {
+  return String(node.data?.label || "").trim()
+}
+
+function describeNode(node: Node): string {
+  const label = getLabel(node)
+  return label ? `"${label}"` : node.id
+}
+
+/**
+ * Finds strongly connected components (Tarjan's algorithm). Components with
+ * more than one node, or a single node linked to itself, are cycles.
+ */
+export function findCycles(nodeIds: string[], edges: Edge[]): string[][] {
+  const adjacency = new Map<string, string[]>(nodeIds.map((id) => [id, []]))
+  edges.forEach((edge) => {
+    if (adjacency.has(edge.source) && adjacency.has(edge.target)) {
+      adjacency.get(edge.source)?.push(edge.target)
+    }
+  })
+
+  const indexOf = new Map<string, number>()
+  const lowLink = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const cycles: string[][] = []
+  let index = 0
+
+  const connect = (nodeId: string) => {
+    indexOf.set(nodeId, index)
+    lowLink.set(nodeId, index)
+    index++
+    stack.push(nodeId)
+    onStack.add(nodeId)
+
+    for (const target of adjacency.get(nodeId) || []) {
+      if (!indexOf.has(target)) {
+        connect(target)
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId) as number, lowLink.get(target) as number))
+      } else if (onStack.has(target)) {
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId) as number, indexOf.get(target) as number))
+      }
+    }
+
+    if (lowLink.get(nodeId) === indexOf.get(nodeId)) {
+      const component: string[] = []
+      let member: string | undefined
+      do {
+        member = stack.pop() as string
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== nodeId)
+
+      const isSelfLoop = component.length === 1 && (adjacency.get(nodeId) || []).includes(nodeId)
+      if (component.length > 1 || isSelfLoop) {
+        cycles.push(component.reverse())
+      }
+    }
+  }
+
+  nodeIds.forEach((nodeId) => {
+    if (!indexOf.has(nodeId)) {
+      connect(nodeId)
+    }
+  })
+
+  return cycles
+}
+
+export interface FlowchartValidationOptions {
+  // Ids of the flowcharts in the library; links to other flowcharts are
+  // only checked when given
+  libraryIds?: Set<string>
+}
+
+/**
+ * Checks a flowchart for structural problems. Errors make the flow
+ * impossible to follow; warnings point at likely mistakes.
+ */
+export function validateFlowchart(
+  nodes: Node[],
+  edges: Edge[],
+  { libraryIds }: FlowchartValidationOptions = {}
+): FlowchartIssue[] {
+  const issues: FlowchartIssue[] = []
+  if (nodes.length === 0) {
+    return issues
+  }
+
+  const addIssue = (
+    rule: FlowchartRuleId,
+    severity: FlowchartIssueSeverity,
+    message: string,
+    nodeIds: string[] = []
+  ) => {
+    issues.push({ id: `${rule}:${nodeIds.join(",") || issues.length}`, rule, severity, message, nodeIds })
+  }
+
+  const nodeIds = new Set(nodes.map((node) => node.id))
+  const validEdges = edges.filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+  const outgoing = new Map<string, Edge[]>(nodes.map((node) => [node.id, []]))
+  validEdges.forEach((edge) => outgoing.get(edge.source)?.push(edge))
+
+  const startNodes = nodes.filter(isStartNode)
+  const endNodes = nodes.filter(isEndNode)
+
+  // Start and end points
+  if (startNodes.length === 0) {
+    addIssue("missing-start", "error", "Flowchart has no start node")
+  }
+  if (endNodes.length === 0) {
+    addIssue("missing-end", "error", "Flowchart has no end node")
+  }
+
+  // End nodes that no path from a start node leads to
+  if (startNodes.length > 0) {
+    const reachable = new Set<string>()
+    const queue = startNodes.map((node) => node.id)
+    while (queue.length > 0) {
+      const nodeId = queue.shift() as string
+      if (reachable.has(nodeId)) continue
+      reachable.add(nodeId)
+      outgoing.get(nodeId)?.forEach((edge) => queue.push(edge.target))
+    }
+
+    endNodes
+      .filter((node) => !reachable.has(node.id))
+      .forEach((node) => {
+        addIssue("unreachable-end", "error", `End node ${describeNode(node)} cannot be reached from a start node`, [node.id])
+      })
+  }
+
+  // Decisions need both outcomes
+  nodes
+    .filter((node) => node.type === "decisionNode")
+    .forEach((node) => {
+      const handles = new Set((outgoing.get(node.id) || []).map((edge) => edge.sourceHandle))
+      const missing = [
+        !handles.has("decision-yes") && `"${node.data?.yesLabel || "Yes"}"`,
+        !handles.has("decision-no") && `"${node.data?.noLabel || "No"}"`,
+      ].filter(Boolean)
+
+      if (missing.length > 0) {
+        addIssue(
+          "decision-missing-branch",
+          "error",
+          `Decision ${describeNode(node)} has no ${missing.join(" or ")} branch`,
+          [node.id]
+        )
+      }
+    })
+
+  // Process steps the flow cannot continue from
+  nodes
+    .filter((node) => STEP_NODE_TYPES.includes(node.type || "") && (outgoing.get(node.id) || []).length === 0)
+    .forEach((node) => {
+      addIssue("dead-end-process", "warning", `Step ${describeNode(node)} has no outgoing connection`, [node.id])
+    })
+
+  // Loops are expected to be controlled by a decision; anything else never exits
+  const nonDecisionIds = nodes.filter((node) => node.type !== "decisionNode").map((node) => node.id)
+  findCycles(nonDecisionIds, validEdges).forEach((cycle) => {
+    const labels = cycle
+      .map((nodeId) => describeNode(nodes.find((node) => node.id === nodeId) as Node))
+      .join(" → ")
+    addIssue("unintended-cycle", "warning", `Loop without a decision: ${labels}`, cycle)
+  })
+
+  // Same label on different steps is usually a copy-paste leftover.
+  // Start and end points are skipped since several "End" nodes are common,
+  // and lane titles name a team rather than a step.
+  const nodesByLabel = new Map<string, Node[]>()
+  nodes
+    .filter((node) => node.type !== "connectorNode" && node.type !== "swimlaneNode" && !isStartNode(node) && !isEndNode(node) && getLabel(node))
+    .forEach((node) => {
+      const key = getLabel(node).toLowerCase()
+      nodesByLabel.set(key, [...(nodesByLabel.get(key) || []), node])
+    })
+  nodesByLabel.forEach((sameLabelNodes) => {
+    if (sameLabelNodes.length > 1) {
+      addIssue(
+        "duplicate-label",
+        "warning",
+        `${sameLabelNodes.length} nodes share the label "${getLabel(sameLabelNodes[0])}"`,
+        sameLabelNodes.map((node) => node.id)
+      )
+    }
+  })
+
+  // Subprocesses linked to a flowchart that was deleted from the library
+  if (libraryIds) {
+    nodes
+      .filter((node) => {
+        const linkedId = getLinkedFlowchartId(node)
+        return linkedId && !libraryIds.has(linkedId)
+      })
+      .forEach((node) => {
+        addIssue(
+          "missing-linked-flowchart",
+          "warning",
+          `Subprocess ${describeNode(node)} links to a flowchart that is no longer in the library`,
+          [node.id]
+        )
+      })
+  }
+
+  return issues
+}
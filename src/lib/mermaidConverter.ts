@@ -1,4 +1,5 @@
 import { type Node, type Edge } from "reactflow"
+import { getLinkedFlowchartId } from "./flowchartLinks"
 
 // Mermaid node shape mappings for different flowchart node types
 const MERMAID_NODE_SHAPES = {
@@ -7,6 +8,12 @@ const MERMAID_NODE_SHAPES = {
   processNode: (label: string) => `[${label}]`,     // Rectangle for process
   decisionNode: (label: string) => `{${label}}`,    // Diamond for decision
   connectorNode: (label: string) => `((${label || '•'}))`, // Circle for connector
+  inputOutputNode: (label: string) => `[/${label}/]`,        // Parallelogram for input/output
+  documentNode: (label: string) => `@{ shape: doc, label: "${label}" }`, // Wavy-bottomed document (Mermaid 11.3+)
+  subprocessNode: (label: string) => `[[${label}]]`,        // Subroutine for predefined process
+  databaseNode: (label: string) => `[(${label})]`,          // Cylinder for database
+  manualOperationNode: (label: string) => `[\\${label}/]`,   // Trapezoid, wide side up, for manual operation
+  delayNode: (label: string) => `@{ shape: delay, label: "${label}" }`, // Half-rounded rectangle (Mermaid 11.3+)
 } as const
 
 // Interface for Mermaid conversion options
@@ -15,6 +22,16 @@ export interface MermaidConversionOptions {
   includeDescription?: boolean
   direction?: 'TD' | 'TB' | 'BT' | 'RL' | 'LR'
   theme?: string
+  // Linked flowcharts to expand as subgraphs, keyed by flowchart id.
+  // Subprocess nodes whose flowchart is not listed stay single nodes.
+  subFlowcharts?: Map<string, SubFlowchart>
+}
+
+// Flowchart a linked subprocess node stands for
+export interface SubFlowchart {
+  title: string
+  nodes: Node[]
+  edges: Edge[]
 }
 
 // Interface for flowchart metadata
@@ -36,7 +53,8 @@ export function convertToMermaid(
     includeTitle = true,
     includeDescription = true,
     direction = 'TD',
-    theme
+    theme,
+    subFlowcharts
   } = options
 
   // Start building the Mermaid diagram
@@ -53,58 +71,107 @@ export function convertToMermaid(
     return mermaidCode
   }
 
-  // Convert nodes to Mermaid syntax
-  const nodeDefinitions = new Set<string>()
-  const nodeIdMap = new Map<string, string>()
+  mermaidCode += writeFlowchartBody(nodes, edges, '    ', '', subFlowcharts, [])
 
-  // Create sanitized node IDs and collect node definitions
-  nodes.forEach((node, index) => {
-    const sanitizedId = sanitizeNodeId(node.id)
-    nodeIdMap.set(node.id, sanitizedId)
-    
-    const nodeLabel = getNodeLabel(node)
-    const mermaidShape = getMermaidShape(node.type, nodeLabel)
-    
-    nodeDefinitions.add(`    ${sanitizedId}${mermaidShape}`)
-  })
+  // Add description as a comment if provided and enabled
+  if (includeDescription && metadata?.description) {
+    mermaidCode += `\n    %% ${metadata.description}\n`
+  }
 
-  // Add node definitions to the diagram
-  nodeDefinitions.forEach(definition => {
-    mermaidCode += definition + '\n'
+  // Add theme configuration if specified
+  if (theme) {
+    mermaidCode += `\n%%{init: {'theme':'${theme}'}}%%\n`
+  }
+
+  return mermaidCode
+}
+
+/**
+ * Writes the node definitions, lanes and connections of one flowchart.
+ * Node ids get idPrefix so an inlined flowchart cannot clash with its
+ * parent; openFlowchartIds guards against flowcharts that link back to
+ * themselves.
+ */
+function writeFlowchartBody(
+  nodes: Node[],
+  edges: Edge[],
+  indent: string,
+  idPrefix: string,
+  subFlowcharts: Map<string, SubFlowchart> | undefined,
+  openFlowchartIds: string[]
+): string {
+  let body = ''
+  const nodeIdMap = new Map(nodes.map(node => [node.id, sanitizeNodeId(`${idPrefix}${node.id}`)]))
+  const lanes = nodes.filter(node => node.type === 'swimlaneNode')
+  const laneIds = new Set(lanes.map(lane => lane.id))
+
+  // A linked subprocess becomes a subgraph holding its flowchart
+  const defineNode = (node: Node, nodeIndent: string): string => {
+    const sanitizedId = nodeIdMap.get(node.id) as string
+    const linkedId = getLinkedFlowchartId(node)
+    const subFlowchart = linkedId && !openFlowchartIds.includes(linkedId) ? subFlowcharts?.get(linkedId) : undefined
+    if (!linkedId || !subFlowchart || subFlowchart.nodes.length === 0) {
+      return `${nodeIndent}${sanitizedId}${getMermaidShape(node.type, getNodeLabel(node))}\n`
+    }
+
+    return (
+      `${nodeIndent}subgraph ${sanitizedId} ["${escapeLabel(getNodeLabel(node))}"]\n` +
+      writeFlowchartBody(
+        subFlowchart.nodes,
+        subFlowchart.edges,
+        `${nodeIndent}    `,
+        `${sanitizedId}_`,
+        subFlowcharts,
+        [...openFlowchartIds, linkedId]
+      ) +
+      `${nodeIndent}end\n`
+    )
+  }
+
+  // Lanes and the steps inside them are written as subgraphs below
+  nodes
+    .filter(node => !laneIds.has(node.id) && !laneIds.has(node.parentNode || ''))
+    .forEach(node => {
+      body += defineNode(node, indent)
+    })
+
+  // Each lane becomes a subgraph; steps run along the lane
+  lanes.forEach(lane => {
+    body += `${indent}subgraph ${nodeIdMap.get(lane.id)} ["${escapeLabel(getNodeLabel(lane))}"]\n`
+    body += `${indent}    direction ${lane.data?.orientation === 'vertical' ? 'TB' : 'LR'}\n`
+    nodes
+      .filter(node => node.parentNode === lane.id)
+      .forEach(node => {
+        body += defineNode(node, `${indent}    `)
+      })
+    body += `${indent}end\n`
   })
 
   // Convert edges to Mermaid connections
   if (edges.length > 0) {
-    mermaidCode += '\n'
-    
+    // Only the outermost flowchart separates its connections with a blank line
+    if (!idPrefix) {
+      body += '\n'
+    }
+
     edges.forEach(edge => {
       const sourceId = nodeIdMap.get(edge.source)
       const targetId = nodeIdMap.get(edge.target)
-      
+
       if (sourceId && targetId) {
         const connection = createMermaidConnection(edge, sourceId, targetId, nodes)
-        mermaidCode += `    ${connection}\n`
+        body += `${indent}${connection}\n`
       }
     })
   }
 
-  // Add description as a comment if provided and enabled
-  if (includeDescription && metadata?.description) {
-    mermaidCode += `\n    %% ${metadata.description}\n`
-  }
-
-  // Add theme configuration if specified
-  if (theme) {
-    mermaidCode += `\n%%{init: {'theme':'${theme}'}}%%\n`
-  }
-
-  return mermaidCode
+  return body
 }
 
 /**
  * Sanitizes node IDs to be valid Mermaid identifiers
  */
-function sanitizeNodeId(id: string): string {
+export function sanitizeNodeId(id: string): string {
   // Replace invalid characters with underscores and ensure it starts with a letter
   const sanitized = id.replace(/[^a-zA-Z0-9_]/g, '_')
   return sanitized.match(/^[a-zA-Z]/) ? sanitized : `node_${sanitized}`
@@ -133,6 +200,20 @@ function getNodeLabel(node: Node): string {
       return 'Decision?'
     case 'connectorNode':
       return data?.label || '•'
+    case 'inputOutputNode':
+      return 'Input / Output'
+    case 'documentNode':
+      return 'Document'
+    case 'subprocessNode':
+      return 'Subprocess'
+    case 'databaseNode':
+      return 'Database'
+    case 'manualOperationNode':
+      return 'Manual Operation'
+    case 'delayNode':
+      return 'Delay'
+    case 'swimlaneNode':
+      return 'Lane'
     default:
       return 'Node'
   }
@@ -154,16 +235,18 @@ function getMermaidShape(nodeType: string | undefined, label: string): string {
       return MERMAID_NODE_SHAPES.decisionNode(escapedLabel)
     case 'connectorNode':
       return MERMAID_NODE_SHAPES.connectorNode(escapedLabel)
-    default:
+    default: {
+      const shape = MERMAID_NODE_SHAPES[nodeType as keyof typeof MERMAID_NODE_SHAPES]
       // Default to rectangle for unknown types
-      return `[${escapedLabel}]`
+      return shape ? shape(escapedLabel) : `[${escapedLabel}]`
+    }
   }
 }
 
 /**
  * Escapes special characters in labels for Mermaid syntax
  */
-function escapeLabel(label: string): string {
+export function escapeLabel(label: string): string {
   // Escape quotes and special characters that could break Mermaid syntax
   return label
     .replace(/"/g, '#quot;')
@@ -242,7 +325,8 @@ export function validateFlowchartForMermaid(nodes: Node[], edges: Edge[]): {
     connectedNodeIds.add(edge.target)
   })
   
-  const disconnectedNodes = nodes.filter(node => !connectedNodeIds.has(node.id))
+  // Lanes only group steps and are never connected themselves
+  const disconnectedNodes = nodes.filter(node => node.type !== 'swimlaneNode' && !connectedNodeIds.has(node.id))
   if (disconnectedNodes.length > 0) {
     warnings.push(`${disconnectedNodes.length} disconnected node(s) found`)
   }
@@ -255,12 +339,6 @@ export function validateFlowchartForMermaid(nodes: Node[], edges: Edge[]): {
     }
   })
   
-  // // Check for circular references (basic check)
-  // const hasCircularReference = detectCircularReferences(nodes, edges)
-  // if (hasCircularReference) {
-  //   warnings.push('Potential circular references detected in flowchart')
-  // }
-  
   return {
     isValid: errors.length === 0,
     warnings,
@@ -268,61 +346,6 @@ export function validateFlowchartForMermaid(nodes: Node[], edges: Edge[]): {
   }
 }
 
-/**
- * Basic circular reference detection
- */
-function detectCircularReferences(nodes: Node[], edges: Edge[]): boolean {
-  const visited = new Set<string>()
-  const recursionStack = new Set<string>()
-  
-  // Build adjacency list
-  const adjacencyList = new Map<string, string[]>()
-  nodes.forEach(node => {
-    adjacencyList.set(node.id, [])
-  })
-  
-  edges.forEach(edge => {
-    const neighbors = adjacencyList.get(edge.source) || []
-    neighbors.push(edge.target)
-    adjacencyList.set(edge.source, neighbors)
-  })
-  
-  // DFS to detect cycles
-  function hasCycle(nodeId: string): boolean {
-    if (recursionStack.has(nodeId)) {
-      return true
-    }
-    
-    if (visited.has(nodeId)) {
-      return false
-    }
-    
-    visited.add(nodeId)
-    recursionStack.add(nodeId)
-    
-    const neighbors = adjacencyList.get(nodeId) || []
-    for (const neighbor of neighbors) {
-      if (hasCycle(neighbor)) {
-        return true
-      }
-    }
-    
-    recursionStack.delete(nodeId)
-    return false
-  }
-  
-  // Check each node for cycles
-  for (const node of nodes) {
-    if (!visited.has(node.id)) {
-      if (hasCycle(node.id)) {
-        return true
-      }
-    }
-  }
-  
-  return false
-}
-
 /**
  * Generates a preview of the Mermaid code with syntax highlighting hints
  */
@@ -0,0 +1,496 @@
+import { type Edge, type Node, MarkerType } from "reactflow"
+import { type MermaidConversionOptions } from "./mermaidConverter"
+import { computeFlowchartLayout } from "./flowchartLayout"
+
+type Direction = NonNullable<MermaidConversionOptions["direction"]>
+
+// Result of parsing Mermaid text, in the same {warnings, errors} shape as validateFlowchartForMermaid
+export interface MermaidParseResult {
+  isValid: boolean
+  warnings: string[]
+  errors: string[]
+  nodes: Node[]
+  edges: Edge[]
+  title?: string
+  direction: Direction
+}
+
+type ShapeKind =
+  | "stadium"
+  | "process"
+  | "decision"
+  | "circle"
+  | "inputOutput"
+  | "document"
+  | "subprocess"
+  | "database"
+  | "manualOperation"
+  | "delay"
+  | "unsupported"
+
+interface ShapeSyntax {
+  open: string
+  close: string
+  kind: ShapeKind
+  name: string
+}
+
+// Longest delimiters first so "([" wins over "(" and "[[" over "["
+const SHAPE_SYNTAX: ShapeSyntax[] = [
+  { open: "([", close: "])", kind: "stadium", name: "stadium" },
+  { open: "((", close: "))", kind: "circle", name: "circle" },
+  { open: "[[", close: "]]", kind: "subprocess", name: "subroutine" },
+  { open: "[(", close: ")]", kind: "database", name: "cylinder" },
+  { open: "[/", close: "/]", kind: "inputOutput", name: "parallelogram" },
+  { open: "[\\", close: "\\]", kind: "unsupported", name: "alternate parallelogram" },
+  { open: "[/", close: "\\]", kind: "unsupported", name: "trapezoid" },
+  { open: "[\\", close: "/]", kind: "manualOperation", name: "alternate trapezoid" },
+  { open: "{{", close: "}}", kind: "unsupported", name: "hexagon" },
+  { open: "[", close: "]", kind: "process", name: "rectangle" },
+  { open: "{", close: "}", kind: "decision", name: "rhombus" },
+  { open: "(", close: ")", kind: "unsupported", name: "rounded rectangle" },
+  { open: ">", close: "]", kind: "unsupported", name: "asymmetric" },
+]
+
+// Index of the delimiter closing this node's label, or -1. The label ends at
+// the first closing bracket, so a matching delimiter further along the line
+// (e.g. "/]" in "A[/x\] --> B[/y/]") belongs to another node and is ignored.
+function findShapeClose(body: string, close: string): number {
+  const labelStart = body.startsWith('"') ? body.indexOf('"', 1) + 1 : 0
+  const closeIndex = body.indexOf(close, labelStart)
+  const bracketIndex = body.indexOf(close[close.length - 1], labelStart)
+  return closeIndex >= 0 && bracketIndex >= closeIndex && bracketIndex < closeIndex + close.length ? closeIndex : -1
+}
+
+interface LinkSyntax {
+  regex: RegExp
+  // Note added to the warnings when the link style has no equivalent on the canvas
+  note?: string
+}
+
+// Plain links are tried before links with inline text so "A --> B --> C" is not read as text
+const LINK_SYNTAX: LinkSyntax[] = [
+  { regex: /^<-{2,}>/, note: "bidirectional arrows are imported as a single arrow" },
+  { regex: /^-{2,}>/ },
+  { regex: /^-{3,}/, note: "links without arrowheads are imported as arrows" },
+  { regex: /^-\.+->/, note: "dotted links are imported as solid arrows" },
+  { regex: /^-\.+-/, note: "dotted links are imported as solid arrows" },
+  { regex: /^={2,}>/, note: "thick links are imported as regular arrows" },
+  { regex: /^={3,}/, note: "thick links are imported as regular arrows" },
+  { regex: /^-{2,}[ox]/, note: "circle and cross arrowheads are imported as regular arrows" },
+  { regex: /^--\s+(.+?)\s+-{2,}>/ },
+  { regex: /^--\s+(.+?)\s+-{3,}/, note: "links without arrowheads are imported as arrows" },
+  { regex: /^-\.\s*(.+?)\s*\.->/, note: "dotted links are imported as solid arrows" },
+  { regex: /^==\s*(.+?)\s*==>/, note: "thick links are imported as regular arrows" },
+]
+
+// Names accepted by the "@{ shape: ... }" syntax, including Mermaid's aliases
+const NAMED_SHAPE_KINDS: Record<string, ShapeKind> = {
+  rect: "process",
+  rectangle: "process",
+  process: "process",
+  proc: "process",
+  diam: "decision",
+  diamond: "decision",
+  decision: "decision",
+  stadium: "stadium",
+  pill: "stadium",
+  terminal: "stadium",
+  circle: "circle",
+  circ: "circle",
+  "lean-r": "inputOutput",
+  "lean-right": "inputOutput",
+  "in-out": "inputOutput",
+  doc: "document",
+  document: "document",
+  "fr-rect": "subprocess",
+  subproc: "subprocess",
+  subprocess: "subprocess",
+  subroutine: "subprocess",
+  cyl: "database",
+  cylinder: "database",
+  database: "database",
+  db: "database",
+  "trap-t": "manualOperation",
+  manual: "manualOperation",
+  "inv-trapezoid": "manualOperation",
+  delay: "delay",
+  "half-rounded-rectangle": "delay",
+}
+
+const IGNORED_STATEMENTS = ["classDef", "class", "style", "linkStyle", "click", "direction"]
+
+const NODE_ID_PATTERN = /^[A-Za-z0-9_]+(?:-(?![-.>])[A-Za-z0-9_]+)*/
+
+// Default data for each imported node type, matching the sidebar palette
+const NODE_DEFAULT_DATA: Record<string, Record<string, unknown>> = {
+  startNode: { nodeType: "start", backgroundColor: "#dcfce7", textColor: "#15803d" },
+  endNode: { nodeType: "end", backgroundColor: "#fee2e2", textColor: "#dc2626" },
+  processNode: { description: "", backgroundColor: "#dbeafe", textColor: "#1d4ed8" },
+  decisionNode: { yesLabel: "Yes", noLabel: "No", backgroundColor: "#fef3c7", textColor: "#d97706" },
+  connectorNode: { backgroundColor: "#f3f4f6", textColor: "#374151" },
+  inputOutputNode: { backgroundColor: "#e0e7ff", textColor: "#4338ca" },
+  documentNode: { backgroundColor: "#f3e8ff", textColor: "#7e22ce" },
+  subprocessNode: { backgroundColor: "#cffafe", textColor: "#0e7490" },
+  databaseNode: { backgroundColor: "#ffedd5", textColor: "#c2410c" },
+  manualOperationNode: { backgroundColor: "#fce7f3", textColor: "#be185d" },
+  delayNode: { backgroundColor: "#ecfccb", textColor: "#4d7c0f" },
+}
+
+interface ParsedNode {
+  id: string
+  label: string
+  kind: ShapeKind
+}
+
+interface ParsedEdge {
+  source: string
+  target: string
+  label?: string
+}
+
+/**
+ * Reverses escapeLabel from the converter
+ */
+function unescapeLabel(label: string): string {
+  let text = label.trim()
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    text = text.slice(1, -1)
+  }
+  return text
+    .replace(/#quot;/g, '"')
+    .replace(/#apos;/g, "'")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .trim()
+}
+
+/**
+ * Pulls the first ```mermaid block out of Markdown, or returns the text unchanged
+ */
+function extractMermaidSource(text: string): string {
+  const fenced = text.match(/```mermaid\s*\n([\s\S]*?)```/)
+  return fenced ? fenced[1] : text
+}
+
+// Split a line into statements on ";" outside of labels
+function splitStatements(line: string): string[] {
+  const statements: string[] = []
+  let current = ""
+  let inQuotes = false
+  let depth = 0
+
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes
+    if (!inQuotes && "[({".includes(char)) depth++
+    if (!inQuotes && "])}".includes(char)) depth = Math.max(0, depth - 1)
+
+    if (char === ";" && !inQuotes && depth === 0) {
+      statements.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  statements.push(current)
+  return statements.map((statement) => statement.trim()).filter(Boolean)
+}
+
+/**
+ * Parses Mermaid `flowchart`/`graph` text into ReactFlow nodes and edges.
+ * Nodes are auto-laid-out in the diagram's direction.
+ */
+export function parseMermaidFlowchart(text: string): MermaidParseResult {
+  const warnings: string[] = []
+  const errors: string[] = []
+  const parsedNodes = new Map<string, ParsedNode>()
+  const parsedEdges: ParsedEdge[] = []
+  const warnedShapes = new Set<string>()
+  const warnedLinks = new Set<string>()
+  let title: string | undefined
+  let direction: Direction = "TD"
+  let hasHeader = false
+
+  const lines = extractMermaidSource(text).replace(/\r/g, "").split("\n")
+  let lineIndex = 0
+
+  // Front matter carries the title written by convertToMermaid
+  if (lines[0]?.trim() === "---") {
+    const closing = lines.findIndex((line, index) => index > 0 && line.trim() === "---")
+    if (closing > 0) {
+      lines.slice(1, closing).forEach((line) => {
+        const match = line.match(/^\s*title:\s*(.+)$/)
+        if (match) title = match[1].trim()
+      })
+      lineIndex = closing + 1
+    }
+  }
+
+  const defineNode = (id: string, label: string | undefined, shape: ShapeSyntax | undefined) => {
+    const existing = parsedNodes.get(id)
+    if (shape?.kind === "unsupported" && !warnedShapes.has(shape.name)) {
+      warnedShapes.add(shape.name)
+      warnings.push(`Mermaid ${shape.name} shapes are not supported and were imported as process nodes`)
+    }
+    if (!existing) {
+      parsedNodes.set(id, { id, label: label ?? id, kind: shape?.kind ?? "process" })
+    } else if (shape) {
+      parsedNodes.set(id, { id, label: label ?? existing.label, kind: shape.kind })
+    }
+  }
+
+  // Read "id" or "id<shape>" from the start of the text
+  const readNode = (source: string, lineNumber: number): { id: string; rest: string } | null => {
+    const idMatch = source.match(NODE_ID_PATTERN)
+    if (!idMatch) {
+      errors.push(`Line ${lineNumber}: expected a node id near "${source.slice(0, 20)}"`)
+      return null
+    }
+
+    const id = idMatch[0]
+    let rest = source.slice(id.length)
+
+    if (rest.startsWith("@{")) {
+      const closing = rest.indexOf("}")
+      const body = rest.slice(0, closing)
+      const shapeName = body.match(/shape:\s*([\w-]+)/)?.[1]?.toLowerCase() ?? ""
+      const labelMatch = body.match(/label:\s*"([^"]*)"/)
+      defineNode(
+        id,
+        labelMatch ? unescapeLabel(labelMatch[1]) : undefined,
+        { open: "@{", close: "}", kind: NAMED_SHAPE_KINDS[shapeName] ?? "unsupported", name: `"${shapeName}"` }
+      )
+      return { id, rest: closing >= 0 ? rest.slice(closing + 1) : "" }
+    }
+
+    const shape = SHAPE_SYNTAX.find(
+      (syntax) => rest.startsWith(syntax.open) && findShapeClose(rest.slice(syntax.open.length), syntax.close) >= 0
+    )
+
+    if (shape) {
+      const body = rest.slice(shape.open.length)
+      const closeIndex = findShapeClose(body, shape.close)
+      defineNode(id, unescapeLabel(body.slice(0, closeIndex)), shape)
+      rest = body.slice(closeIndex + shape.close.length)
+    } else {
+      defineNode(id, undefined, undefined)
+    }
+
+    return { id, rest }
+  }
+
+  const readLink = (source: string): { label?: string; rest: string } | null => {
+    for (const syntax of LINK_SYNTAX) {
+      const match = source.match(syntax.regex)
+      if (!match) continue
+
+      if (syntax.note && !warnedLinks.has(syntax.note)) {
+        warnedLinks.add(syntax.note)
+        warnings.push(`Link styles differ: ${syntax.note}`)
+      }
+
+      let label = match[1] ? unescapeLabel(match[1]) : undefined
+      let rest = source.slice(match[0].length).trimStart()
+      const pipeLabel = rest.match(/^\|([^|]*)\|/)
+      if (pipeLabel) {
+        label = unescapeLabel(pipeLabel[1])
+        rest = rest.slice(pipeLabel[0].length)
+      }
+      return { label, rest }
+    }
+    return null
+  }
+
+  const parseStatement = (statement: string, lineNumber: number) => {
+    const keyword = statement.split(/\s+/)[0]
+
+    if (keyword === "subgraph" || keyword === "end") {
+      if (keyword === "subgraph") {
+        warnings.push(`Line ${lineNumber}: subgraphs are not supported; their nodes were imported without grouping`)
+      }
+      return
+    }
+    if (IGNORED_STATEMENTS.includes(keyword)) {
+      warnings.push(`Line ${lineNumber}: "${keyword}" statements are not supported and were ignored`)
+      return
+    }
+
+    const first = readNode(statement, lineNumber)
+    if (!first) return
+
+    let previousId = first.id
+    let rest = first.rest.trim()
+    while (rest) {
+      if (rest.startsWith("&")) {
+        warnings.push(`Line ${lineNumber}: "&" node groups are not supported; the rest of the line was ignored`)
+        return
+      }
+
+      const link = readLink(rest)
+      if (!link) {
+        errors.push(`Line ${lineNumber}: unexpected "${rest.slice(0, 20)}"`)
+        return
+      }
+
+      const next = readNode(link.rest.trimStart(), lineNumber)
+      if (!next) return
+
+      parsedEdges.push({ source: previousId, target: next.id, label: link.label })
+      previousId = next.id
+      rest = next.rest.trim()
+    }
+  }
+
+  for (; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex].trim()
+    const lineNumber = lineIndex + 1
+    if (!line || line.startsWith("%%")) {
+      continue
+    }
+
+    if (!hasHeader) {
+      const header = line.match(/^(flowchart|graph)(?:\s+(TD|TB|BT|RL|LR))?\s*;?$/)
+      if (!header) {
+        errors.push(`Line ${lineNumber}: expected a "flowchart" or "graph" declaration`)
+        break
+      }
+      hasHeader = true
+      direction = (header[2] as Direction | undefined) ?? "TD"
+      continue
+    }
+
+    splitStatements(line).forEach((statement) => parseStatement(statement, lineNumber))
+  }
+
+  if (!hasHeader && errors.length === 0) {
+    errors.push('No "flowchart" declaration found')
+  }
+
+  const { nodes, edges } = buildFlowchart(parsedNodes, parsedEdges, warnings)
+  const positions = computeFlowchartLayout(nodes, edges, { direction })
+  const laidOutNodes = nodes.map((node) => ({ ...node, position: positions.get(node.id) ?? node.position }))
+
+  return {
+    isValid: errors.length === 0,
+    warnings,
+    errors,
+    nodes: laidOutNodes,
+    edges,
+    title,
+    direction,
+  }
+}
+
+// Turn parsed statements into editor nodes and edges
+function buildFlowchart(
+  parsedNodes: Map<string, ParsedNode>,
+  parsedEdges: ParsedEdge[],
+  warnings: string[]
+): { nodes: Node[]; edges: Edge[] } {
+  const hasIncoming = new Set(parsedEdges.map((edge) => edge.target))
+  const hasOutgoing = new Set(parsedEdges.map((edge) => edge.source))
+  const idMap = new Map<string, string>()
+
+  const nodes: Node[] = Array.from(parsedNodes.values()).map((parsedNode, index) => {
+    let type: string
+    switch (parsedNode.kind) {
+      case "stadium":
+        // Stadium shapes are start or end points depending on their links
+        if (!hasIncoming.has(parsedNode.id)) {
+          type = "startNode"
+        } else if (!hasOutgoing.has(parsedNode.id)) {
+          type = "endNode"
+        } else {
+          type = "processNode"
+          warnings.push(`Node "${parsedNode.id}" has incoming and outgoing links and was imported as a process node`)
+        }
+        break
+      case "decision":
+        type = "decisionNode"
+        break
+      case "circle":
+        type = "connectorNode"
+        break
+      case "inputOutput":
+      case "document":
+      case "subprocess":
+      case "database":
+      case "manualOperation":
+      case "delay":
+        type = `${parsedNode.kind}Node`
+        break
+      default:
+        type = "processNode"
+    }
+
+    const id = `${type}-${index}`
+    idMap.set(parsedNode.id, id)
+    const label = type === "connectorNode" && parsedNode.label === "•" ? "" : parsedNode.label
+
+    return {
+      id,
+      type,
+      position: { x: 0, y: 0 },
+      data: { ...NODE_DEFAULT_DATA[type], label },
+    }
+  })
+
+  const nodesById = new Map(nodes.map((node) => [node.id, node]))
+  const getLabeledBranch = (label: string | undefined): string | undefined => {
+    const normalized = label?.trim().toLowerCase() ?? ""
+    if (/^(no|n|false)$/.test(normalized)) return "decision-no"
+    if (/^(yes|y|true)$/.test(normalized)) return "decision-yes"
+    return undefined
+  }
+
+  // Branches claimed by yes/no labels, so other links only take a free one
+  const usedBranches = new Map<string, Set<string>>()
+  parsedEdges.forEach((parsedEdge) => {
+    const source = idMap.get(parsedEdge.source) as string
+    const branch = getLabeledBranch(parsedEdge.label)
+    if (branch && nodesById.get(source)?.type === "decisionNode") {
+      usedBranches.set(source, (usedBranches.get(source) ?? new Set<string>()).add(branch))
+    }
+  })
+
+  const edges: Edge[] = parsedEdges.map((parsedEdge, index) => {
+    const source = idMap.get(parsedEdge.source) as string
+    const target = idMap.get(parsedEdge.target) as string
+    const sourceNode = nodesById.get(source) as Node
+    let sourceHandle: string | undefined
+
+    // Decision links become yes/no branches, matched by label or by order
+    if (sourceNode.type === "decisionNode") {
+      const used = usedBranches.get(source) ?? new Set<string>()
+      usedBranches.set(source, used)
+      sourceHandle = getLabeledBranch(parsedEdge.label)
+
+      if (!sourceHandle) {
+        sourceHandle = ["decision-yes", "decision-no"].find((branch) => !used.has(branch))
+        if (sourceHandle) {
+          used.add(sourceHandle)
+        } else {
+          warnings.push(`Decision "${sourceNode.data.label}" has more than two branches; extra branches were kept as unlabeled links`)
+        }
+      }
+
+      if (sourceHandle && parsedEdge.label) {
+        sourceNode.data[sourceHandle === "decision-yes" ? "yesLabel" : "noLabel"] = parsedEdge.label
+      }
+    }
+
+    return {
+      id: `e-${source}-${target}-${index}`,
+      source,
+      target,
+      ...(sourceHandle ? { sourceHandle } : {}),
+      ...(parsedEdge.label ? { label: parsedEdge.label } : {}),
+      type: "default",
+      animated: false,
+      style: { stroke: "#374151", strokeWidth: 2 },
+      markerEnd: { type: MarkerType.ArrowClosed, color: "#374151", width: 20, height: 20 },
+      className: "flowchart-edge",
+    }
+  })
+
+  return { nodes, edges }
+}
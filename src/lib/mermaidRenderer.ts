@@ -0,0 +1,37 @@
+import type { Mermaid } from "mermaid"
+
+let mermaidPromise: Promise<Mermaid> | null = null
+let renderCount = 0
+
+// Load the bundled renderer on first use so it stays out of the main chunk
+function loadMermaid(): Promise<Mermaid> {
+  if (!mermaidPromise) {
+    mermaidPromise = import("mermaid")
+      .then(({ default: mermaid }) => {
+        mermaid.initialize({ startOnLoad: false, securityLevel: "strict" })
+        return mermaid
+      })
+      .catch((error) => {
+        // Allow a later attempt after a failed chunk load
+        mermaidPromise = null
+        throw error
+      })
+  }
+  return mermaidPromise
+}
+
+/**
+ * Renders Mermaid code to an SVG string. Resolves with the renderer's parse
+ * error message instead of throwing when the code does not render.
+ */
+export async function renderMermaidDiagram(code: string): Promise<{ svg: string | null; error: string | null }> {
+  try {
+    const mermaid = await loadMermaid()
+    renderCount += 1
+    const { svg } = await mermaid.render(`mermaid-preview-${renderCount}`, code)
+    return { svg, error: null }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { svg: null, error: message }
+  }
+}
@@ -0,0 +1,221 @@
+import { type Node } from "reactflow"
+import { getBoardEndpoints, parseJsonBody } from "./boardEndpoints"
+
+export type MockServerTarget = "node" | "msw"
+
+// One response served by the mock, taken from an ApiNode
+export interface MockRoute {
+  label: string
+  method: string
+  // Express-style path, e.g. "/users/:id"
+  path: string
+  status: number
+  headers: Record<string, string>
+  body: string
+  // Example request body whose shape incoming requests must match
+  requestExample?: unknown
+}
+
+const BODY_METHODS = ["POST", "PUT", "PATCH"]
+// Statuses that must be sent without a body
+const EMPTY_BODY_STATUSES = [204, 304]
+
+/**
+ * Collects the responses of every ApiNode. Gateways describe calls to other
+ * systems, so they are not served.
+ */
+export function collectMockRoutes(nodes: Node[]): { routes: MockRoute[]; warnings: string[] } {
+  const warnings: string[] = []
+  const routes: MockRoute[] = []
+  const seen = new Set<string>()
+  const endpoints = getBoardEndpoints(nodes).filter((endpoint) => endpoint.kind === "api")
+
+  if (endpoints.length === 0) {
+    warnings.push("The board has no API nodes")
+  }
+
+  endpoints.forEach((endpoint) => {
+    const path = endpoint.path.replace(/\{(\w+)\}/g, ":$1")
+    const key = `${endpoint.method} ${path}`
+    if (seen.has(key)) {
+      warnings.push(`"${endpoint.label}" duplicates ${key} and was skipped`)
+      return
+    }
+    seen.add(key)
+
+    let status = Number.parseInt(endpoint.status, 10)
+    if (!(status >= 100 && status <= 599)) {
+      warnings.push(`"${endpoint.label}" has status "${endpoint.status}"; 200 is served instead`)
+      status = 200
+    }
+
+    const headers = Object.fromEntries(endpoint.responseHeaders.map((header) => [header.key, header.value]))
+    const hasContentType = Object.keys(headers).some((name) => name.toLowerCase() === "content-type")
+    if (!hasContentType && parseJsonBody(endpoint.responseBody) !== undefined) {
+      headers["Content-Type"] = "application/json"
+    }
+
+    let requestExample: unknown
+    if (BODY_METHODS.includes(endpoint.method) && endpoint.requestBody.trim()) {
+      requestExample = parseJsonBody(endpoint.requestBody)
+      if (requestExample === undefined) {
+        warnings.push(`"${endpoint.label}" has a request body that is not JSON; its requests are not validated`)
+      }
+    }
+
+    routes.push({
+      label: endpoint.label,
+      method: endpoint.method,
+      path,
+      status,
+      headers,
+      body: EMPTY_BODY_STATUSES.includes(status) ? "" : endpoint.responseBody,
+      ...(requestExample !== undefined ? { requestExample } : {}),
+    })
+  })
+
+  return { routes, warnings }
+}
+
+// Routes table and shape diff shared by both targets
+function renderSharedCode(routes: MockRoute[]): string {
+  return `// Generated from the Interactive Board's API nodes
+const routes = ${JSON.stringify(routes, null, 2)}
+
+function describeType(value) {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+// Lists where a request body differs in shape from the route's example
+function diffShape(expected, actual, path = "$") {
+  // A null example accepts any value
+  if (expected === null) return []
+  const expectedType = describeType(expected)
+  const actualType = describeType(actual)
+  if (expectedType !== actualType) {
+    return [{ path, expected: expectedType, actual: actualType }]
+  }
+  if (expectedType === "array") {
+    if (expected.length === 0) return []
+    return actual.flatMap((item, index) => diffShape(expected[0], item, path + "[" + index + "]"))
+  }
+  if (expectedType === "object") {
+    const missing = Object.keys(expected)
+      .filter((key) => !(key in actual))
+      .map((key) => ({ path: path + "." + key, expected: describeType(expected[key]), actual: "missing" }))
+    const nested = Object.keys(expected)
+      .filter((key) => key in actual)
+      .flatMap((key) => diffShape(expected[key], actual[key], path + "." + key))
+    const unexpected = Object.keys(actual)
+      .filter((key) => !(key in expected))
+      .map((key) => ({ path: path + "." + key, expected: "absent", actual: describeType(actual[key]) }))
+    return [...missing, ...nested, ...unexpected]
+  }
+  return []
+}
+
+// Returns the 400 payload for a bad request body, or null when it matches
+function validateBody(route, text) {
+  if (!("requestExample" in route)) return null
+  let body
+  try {
+    body = JSON.parse(text)
+  } catch {
+    return { error: "Request body is not valid JSON" }
+  }
+  const diff = diffShape(route.requestExample, body)
+  return diff.length > 0 ? { error: "Request body does not match the example shape", diff } : null
+}
+`
+}
+
+function renderNodeServer(routes: MockRoute[]): string {
+  return `// Standalone mock server: node mock-server.mjs (set PORT to change the port)
+import { createServer } from "node:http"
+
+${renderSharedCode(routes)}
+function matchPath(routePath, pathname) {
+  const routeSegments = routePath.split("/").filter(Boolean)
+  const segments = pathname.split("/").filter(Boolean)
+  return (
+    routeSegments.length === segments.length &&
+    routeSegments.every((segment, index) => segment.startsWith(":") || segment === segments[index])
+  )
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let text = ""
+    request.setEncoding("utf8")
+    request.on("data", (chunk) => (text += chunk))
+    request.on("end", () => resolve(text))
+    request.on("error", reject)
+  })
+}
+
+function sendJson(response, status, payload) {
+  response.writeHead(status, { "Content-Type": "application/json" })
+  response.end(JSON.stringify(payload, null, 2))
+}
+
+const port = Number(process.env.PORT) || 4010
+
+createServer(async (request, response) => {
+  // Let frontends on other origins call the mock
+  response.setHeader("Access-Control-Allow-Origin", "*")
+  response.setHeader("Access-Control-Allow-Headers", "*")
+  response.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, PATCH, DELETE, OPTIONS")
+  if (request.method === "OPTIONS") {
+    response.writeHead(204)
+    response.end()
+    return
+  }
+
+  const { pathname } = new URL(request.url, "http://localhost")
+  const route = routes.find((item) => item.method === request.method && matchPath(item.path, pathname))
+  if (!route) {
+    sendJson(response, 404, { error: "No mock for " + request.method + " " + pathname })
+    return
+  }
+
+  const problem = validateBody(route, await readBody(request))
+  if (problem) {
+    sendJson(response, 400, problem)
+    return
+  }
+
+  response.writeHead(route.status, route.headers)
+  response.end(route.body)
+}).listen(port, () => {
+  console.log("Mock server listening on http://localhost:" + port)
+  routes.forEach((route) => console.log("  " + route.method.padEnd(6) + " " + route.path + " -> " + route.status))
+})
+`
+}
+
+function renderMswHandlers(routes: MockRoute[]): string {
+  return `// MSW 2 request handlers: pass them to setupWorker(...handlers) or setupServer(...handlers)
+import { http, HttpResponse } from "msw"
+
+${renderSharedCode(routes)}
+export const handlers = routes.map((route) =>
+  http[route.method.toLowerCase()](route.path, async ({ request }) => {
+    const problem = validateBody(route, await request.text())
+    if (problem) {
+      return HttpResponse.json(problem, { status: 400 })
+    }
+    return new HttpResponse(route.body || null, { status: route.status, headers: route.headers })
+  })
+)
+`
+}
+
+/**
+ * Renders the routes as a dependency-free Node server or an MSW handler module.
+ * Requests whose JSON body differs in shape from the example get a 400 with the diff.
+ */
+export function renderMockServer(routes: MockRoute[], target: MockServerTarget): string {
+  return target === "msw" ? renderMswHandlers(routes) : renderNodeServer(routes)
+}
@@ -0,0 +1,227 @@
+import { type Edge, type Node } from "reactflow"
+import { stringify } from "yaml"
+import {
+  getBoardEndpoints,
+  getBusinessFlowAncestors,
+  parseJsonBody,
+  type BoardEndpoint,
+  type HttpHeader,
+} from "./boardEndpoints"
+
+export type OpenApiFormat = "yaml" | "json"
+
+export interface OpenApiExportOptions {
+  title?: string
+  version?: string
+}
+
+type JsonSchema = Record<string, unknown>
+type OpenApiDocument = Record<string, unknown>
+
+const BODY_METHODS = ["POST", "PUT", "PATCH"]
+// OpenAPI describes these through media types and security schemes, not header parameters
+const RESERVED_HEADERS = ["content-type", "accept", "authorization"]
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Infers a JSON Schema (2020-12, as used by OpenAPI 3.1) from an example value
+ */
+export function inferJsonSchema(value: unknown): JsonSchema {
+  if (value === null) {
+    return { type: "null" }
+  }
+  if (Array.isArray(value)) {
+    const sample = value.find((item) => item !== null)
+    return { type: "array", items: sample === undefined ? {} : inferJsonSchema(sample) }
+  }
+
+  switch (typeof value) {
+    case "boolean":
+      return { type: "boolean" }
+    case "number":
+      return { type: Number.isInteger(value) ? "integer" : "number" }
+    case "string":
+      if (ISO_DATE_TIME.test(value)) return { type: "string", format: "date-time" }
+      if (ISO_DATE.test(value)) return { type: "string", format: "date" }
+      return { type: "string" }
+    case "object": {
+      const entries = Object.entries(value as Record<string, unknown>)
+      return {
+        type: "object",
+        properties: Object.fromEntries(entries.map(([key, item]) => [key, inferJsonSchema(item)])),
+        ...(entries.length > 0 ? { required: entries.map(([key]) => key) } : {}),
+      }
+    }
+    default:
+      return {}
+  }
+}
+
+function findHeader(headers: HttpHeader[], name: string): string | undefined {
+  return headers.find((header) => header.key.toLowerCase() === name)?.value
+}
+
+// Media type object for a body, falling back to plain text for non-JSON bodies
+function createContent(body: string, headers: HttpHeader[]): Record<string, unknown> {
+  const parsed = parseJsonBody(body)
+  const declaredType = findHeader(headers, "content-type")?.split(";")[0].trim()
+
+  if (parsed !== undefined) {
+    return {
+      [declaredType || "application/json"]: { schema: inferJsonSchema(parsed), example: parsed },
+    }
+  }
+  return {
+    [declaredType || "text/plain"]: { schema: { type: "string" }, example: body },
+  }
+}
+
+function toOperationId(label: string, method: string, used: Set<string>): string {
+  const words = label.match(/[A-Za-z0-9]+/g) || [method.toLowerCase(), "operation"]
+  const base = words
+    .map((word, index) => (index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()))
+    .join("")
+  let operationId = base
+  for (let suffix = 2; used.has(operationId); suffix++) {
+    operationId = `${base}${suffix}`
+  }
+  used.add(operationId)
+  return operationId
+}
+
+function createOperation(
+  endpoint: BoardEndpoint,
+  tags: string[],
+  usedOperationIds: Set<string>
+): Record<string, unknown> {
+  const parameters = [
+    ...endpoint.pathParameters.map((name) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    })),
+    ...endpoint.requestHeaders
+      .filter((header) => !RESERVED_HEADERS.includes(header.key.toLowerCase()))
+      .map((header) => ({
+        name: header.key,
+        in: "header",
+        schema: { type: "string" },
+        ...(header.value ? { example: header.value } : {}),
+      })),
+  ]
+
+  const responseHeaders = endpoint.responseHeaders.filter((header) => header.key.toLowerCase() !== "content-type")
+  const status = /^[1-5](\d{2}|XX)$/.test(endpoint.status) ? endpoint.status : "default"
+
+  return {
+    ...(tags.length > 0 ? { tags } : {}),
+    summary: endpoint.label,
+    operationId: toOperationId(endpoint.label, endpoint.method, usedOperationIds),
+    // Gateways call out to third-party systems, so they get their own server
+    ...(endpoint.kind === "gateway"
+      ? {
+          servers: [
+            {
+              url: endpoint.origin || "/",
+              description: `External service called through gateway "${endpoint.label}"`,
+            },
+          ],
+        }
+      : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(BODY_METHODS.includes(endpoint.method) && endpoint.requestBody.trim()
+      ? { requestBody: { required: true, content: createContent(endpoint.requestBody, endpoint.requestHeaders) } }
+      : {}),
+    responses: {
+      [status]: {
+        description: `${endpoint.label} response`,
+        ...(responseHeaders.length > 0
+          ? {
+              headers: Object.fromEntries(
+                responseHeaders.map((header) => [
+                  header.key,
+                  { schema: { type: "string" }, ...(header.value ? { example: header.value } : {}) },
+                ])
+              ),
+            }
+          : {}),
+        ...(endpoint.responseBody.trim()
+          ? { content: createContent(endpoint.responseBody, endpoint.responseHeaders) }
+          : {}),
+      },
+    },
+  }
+}
+
+/**
+ * Collects API and gateway nodes into an OpenAPI 3.1 document. Endpoints are
+ * tagged with the BusinessFlow nodes they descend from; gateway endpoints get
+ * an operation-level server marking them as external.
+ */
+export function generateOpenApiDocument(
+  nodes: Node[],
+  edges: Edge[],
+  options: OpenApiExportOptions = {}
+): { document: OpenApiDocument; warnings: string[] } {
+  const warnings: string[] = []
+  const endpoints = getBoardEndpoints(nodes)
+  const paths: Record<string, Record<string, unknown>> = {}
+  const tags = new Map<string, string | undefined>()
+  const usedOperationIds = new Set<string>()
+
+  if (endpoints.length === 0) {
+    warnings.push("The board has no API or Gateway nodes")
+  }
+
+  endpoints.forEach((endpoint) => {
+    const method = endpoint.method.toLowerCase()
+    const pathItem = (paths[endpoint.path] ||= {})
+
+    if (pathItem[method]) {
+      warnings.push(`"${endpoint.label}" duplicates ${endpoint.method} ${endpoint.path} and was skipped`)
+      return
+    }
+
+    const flowTags = getBusinessFlowAncestors(endpoint.nodeId, nodes, edges).map((flowNode) => {
+      const name = String(flowNode.data?.label || "Business Flow")
+      if (!tags.has(name)) {
+        tags.set(name, flowNode.data?.payload?.description)
+      }
+      return name
+    })
+
+    if (endpoint.kind === "gateway" && !endpoint.origin) {
+      warnings.push(`Gateway "${endpoint.label}" has a relative URL; set an absolute URL to name the external server`)
+    }
+
+    pathItem[method] = createOperation(endpoint, flowTags, usedOperationIds)
+  })
+
+  const document: OpenApiDocument = {
+    openapi: "3.1.0",
+    info: {
+      title: options.title || "Interactive Board API",
+      version: options.version || "1.0.0",
+    },
+    ...(tags.size > 0
+      ? {
+          tags: Array.from(tags.entries()).map(([name, description]) => ({
+            name,
+            ...(description ? { description } : {}),
+          })),
+        }
+      : {}),
+    paths,
+  }
+
+  return { document, warnings }
+}
+
+export function serializeOpenApiDocument(document: OpenApiDocument, format: OpenApiFormat): string {
+  return format === "json"
+    ? JSON.stringify(document, null, 2)
+    : stringify(document, { aliasDuplicateObjects: false, lineWidth: 0 })
+}
@@ -0,0 +1,252 @@
+import { parse } from "yaml"
+import { parseEndpointUrl, type HttpHeader } from "./boardEndpoints"
+
+// API node payload fields filled from one OpenAPI operation
+export interface ImportedApiOperation {
+  label: string
+  method: string
+  url: string
+  requestHeaders: HttpHeader[]
+  requestBody: string
+  status: string
+  responseHeaders: HttpHeader[]
+  responseBody: string
+}
+
+export class OpenApiImportError extends Error {
+  constructor(message: string, cause?: Error) {
+    super(message, { cause })
+    this.name = "OpenApiImportError"
+  }
+}
+
+type OpenApiObject = Record<string, unknown>
+
+function asObject(value: unknown): OpenApiObject | undefined {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as OpenApiObject) : undefined
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : []
+}
+
+// Methods the ApiNode method picker offers
+const SUPPORTED_METHODS = ["get", "post", "put", "delete", "patch"]
+const IGNORED_METHODS = ["head", "options", "trace"]
+const MAX_EXAMPLE_DEPTH = 6
+
+function resolveRef(document: OpenApiObject, rawValue: unknown, seen = new Set<string>()): OpenApiObject | undefined {
+  const value = asObject(rawValue)
+  if (!value || typeof value.$ref !== "string") {
+    return value
+  }
+  const ref = value.$ref
+  if (!ref.startsWith("#/") || seen.has(ref)) {
+    return undefined
+  }
+  seen.add(ref)
+
+  const target = ref
+    .slice(2)
+    .split("/")
+    .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce<OpenApiObject | undefined>((current, part) => asObject(current?.[part]), document)
+  return resolveRef(document, target, seen)
+}
+
+/**
+ * Builds an example value from a schema when the document provides none
+ */
+function exampleFromSchema(document: OpenApiObject, schemaOrRef: unknown, depth = 0): unknown {
+  const schema = resolveRef(document, schemaOrRef)
+  if (!schema || depth > MAX_EXAMPLE_DEPTH) {
+    return null
+  }
+  if (schema.example !== undefined) return schema.example
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0]
+  if (schema.default !== undefined) return schema.default
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0]
+
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+    return Object.assign({}, ...schema.allOf.map((part) => exampleFromSchema(document, part, depth + 1)))
+  }
+  const alternatives = asArray(schema.oneOf ?? schema.anyOf)
+  if (alternatives.length > 0) {
+    return exampleFromSchema(document, alternatives[0], depth + 1)
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((item) => item !== "null") : schema.type
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(asObject(schema.properties) || {}).map(([key, property]) => [
+          key,
+          exampleFromSchema(document, property, depth + 1),
+        ])
+      )
+    case "array":
+      return [exampleFromSchema(document, schema.items, depth + 1)]
+    case "integer":
+    case "number":
+      return 0
+    case "boolean":
+      return true
+    case "string":
+      if (schema.format === "date-time") return "2024-01-01T00:00:00Z"
+      if (schema.format === "date") return "2024-01-01"
+      return "string"
+    default:
+      return schema.properties ? exampleFromSchema(document, { ...schema, type: "object" }, depth) : null
+  }
+}
+
+// Pick a media type (JSON first) and turn its example into body text
+function readContent(document: OpenApiObject, rawContent: unknown): { contentType?: string; body: string } {
+  const content = asObject(rawContent)
+  if (!content || Object.keys(content).length === 0) {
+    return { body: "" }
+  }
+
+  const contentType = Object.keys(content).find((type) => type.includes("json")) || Object.keys(content)[0]
+  const media = asObject(content[contentType]) || {}
+  const namedExample = Object.values(asObject(media.examples) || {})[0]
+  const example =
+    media.example !== undefined
+      ? media.example
+      : namedExample
+        ? resolveRef(document, namedExample)?.value
+        : exampleFromSchema(document, media.schema)
+
+  if (example === undefined || example === null) {
+    return { contentType, body: "" }
+  }
+  return {
+    contentType,
+    body: typeof example === "string" && !contentType.includes("json") ? example : JSON.stringify(example, null, 2),
+  }
+}
+
+function headerValue(document: OpenApiObject, header: OpenApiObject): string {
+  const schema = resolveRef(document, header.schema)
+  const value = header.example ?? schema?.example ?? schema?.default ?? ""
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+// Base path of the first server, e.g. "/api/v1" for "https://example.com/api/v1"
+function getServerBasePath(document: OpenApiObject): string {
+  const serverUrl = asObject(asArray(document.servers)[0])?.url
+  if (typeof serverUrl !== "string") {
+    return ""
+  }
+  const { path } = parseEndpointUrl(serverUrl)
+  return path === "/" ? "" : path.replace(/\/$/, "")
+}
+
+function parseDocumentText(text: string): OpenApiObject {
+  let document: unknown
+  try {
+    document = text.trim().startsWith("{") ? JSON.parse(text) : parse(text)
+  } catch (error) {
+    throw new OpenApiImportError("The file is not valid JSON or YAML", error as Error)
+  }
+
+  const openApiDocument = asObject(document)
+  if (!openApiDocument) {
+    throw new OpenApiImportError("The file does not contain an OpenAPI document")
+  }
+  const version = openApiDocument.openapi
+  if (typeof version !== "string" || !version.startsWith("3.")) {
+    throw new OpenApiImportError(
+      openApiDocument.swagger
+        ? "Swagger 2.0 documents are not supported; convert the file to OpenAPI 3 first"
+        : "Only OpenAPI 3.x documents are supported"
+    )
+  }
+  return openApiDocument
+}
+
+/**
+ * Reads an OpenAPI 3 JSON or YAML document and returns one API node payload
+ * per operation. Examples are taken from the document or generated from schemas.
+ */
+export function parseOpenApiOperations(text: string): { operations: ImportedApiOperation[]; warnings: string[] } {
+  const document = parseDocumentText(text)
+  const warnings: string[] = []
+  const operations: ImportedApiOperation[] = []
+  const basePath = getServerBasePath(document)
+
+  Object.entries(asObject(document.paths) || {}).forEach(([path, rawPathItem]) => {
+    const pathItem = resolveRef(document, rawPathItem) || {}
+    const pathParameters = asArray(pathItem.parameters)
+
+    Object.entries(pathItem).forEach(([method, rawOperation]) => {
+      if (IGNORED_METHODS.includes(method)) {
+        warnings.push(`${method.toUpperCase()} ${path} was skipped; API nodes support ${SUPPORTED_METHODS.join(", ").toUpperCase()}`)
+        return
+      }
+      if (!SUPPORTED_METHODS.includes(method)) {
+        return
+      }
+
+      const operation = asObject(rawOperation) || {}
+      const parameters = [...pathParameters, ...asArray(operation.parameters)]
+        .map((parameter) => resolveRef(document, parameter))
+        .filter((parameter): parameter is OpenApiObject => !!parameter)
+
+      // Operation-level parameters override path-level ones with the same name
+      const headerParameters = new Map<string, OpenApiObject>()
+      parameters
+        .filter((parameter) => parameter.in === "header")
+        .forEach((parameter) => headerParameters.set(String(parameter.name), parameter))
+
+      const requestBody = resolveRef(document, operation.requestBody)
+      const request = readContent(document, requestBody?.content)
+      const requestHeaders: HttpHeader[] = [
+        ...(request.contentType ? [{ key: "Content-Type", value: request.contentType }] : []),
+        ...Array.from(headerParameters.entries()).map(([name, parameter]) => ({
+          key: name,
+          value: headerValue(document, parameter),
+        })),
+      ]
+
+      // Document the success response, falling back to the first one listed
+      const responses = asObject(operation.responses) || {}
+      const responseCodes = Object.keys(responses)
+      const statusCode =
+        responseCodes.filter((code) => /^2/.test(code)).sort()[0] ||
+        responseCodes.find((code) => code !== "default") ||
+        responseCodes[0]
+      const responseObject = resolveRef(document, responses[statusCode])
+      const response = readContent(document, responseObject?.content)
+      const responseHeaders: HttpHeader[] = [
+        ...(response.contentType ? [{ key: "Content-Type", value: response.contentType }] : []),
+        ...Object.entries(asObject(responseObject?.headers) || {}).map(([name, header]) => ({
+          key: name,
+          value: headerValue(document, resolveRef(document, header) || {}),
+        })),
+      ]
+
+      operations.push({
+        label: String(operation.summary || operation.operationId || `${method.toUpperCase()} ${path}`),
+        method: method.toUpperCase(),
+        url: `${basePath}${path}`,
+        requestHeaders,
+        requestBody: request.body,
+        status: !statusCode || statusCode === "default" ? "200" : statusCode.replace(/XX$/i, "00"),
+        responseHeaders,
+        responseBody: response.body,
+      })
+    })
+  })
+
+  if (operations.length === 0) {
+    warnings.push("The document has no operations to import")
+  }
+
+  return { operations, warnings }
+}
+
+// Key used to match imported operations with API nodes already on the board
+export function getOperationKey(method: string, url: string): string {
+  return `${method.toUpperCase()} ${parseEndpointUrl(url).path}`
+}
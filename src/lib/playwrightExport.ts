@@ -0,0 +1,136 @@
+import { type Edge, type Node } from "reactflow"
+import { getCustomerActionChains } from "./boardEndpoints"
+
+export interface PlaywrightSpecFile {
+  flowId: string
+  flowLabel: string
+  fileName: string
+  content: string
+}
+
+// Turns a label into a file name, e.g. "Guest Checkout" -> "guest-checkout"
+function toFileSlug(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "business-flow"
+}
+
+// Quote a value as a TypeScript string literal
+function quote(value: string): string {
+  return JSON.stringify(value)
+}
+
+function getActionLabel(node: Node): string {
+  return String(node.data?.label || "Customer Action").replace(/\s+/g, " ")
+}
+
+// Playwright statements for one CustomerAction node
+function createStepLines(node: Node, warnings: string[], flowLabel: string): string[] {
+  const payload = node.data?.payload || {}
+  const label = getActionLabel(node)
+  const selector = String(payload.selector || "").trim()
+  const missing = (field: string) => {
+    warnings.push(`"${label}" in "${flowLabel}" has no ${field}; the step was left as a TODO`)
+    return [`// TODO: ${label} (missing ${field})`]
+  }
+
+  const lines = [`// ${label}`]
+  switch (payload.actionType || "navigate") {
+    case "navigate":
+      if (!payload.url) return missing("URL")
+      lines.push(`await page.goto(${quote(String(payload.url))})`)
+      break
+    case "click":
+      if (!selector) return missing("selector")
+      lines.push(`await page.locator(${quote(selector)}).click()`)
+      break
+    case "type":
+      if (!selector) return missing("selector")
+      lines.push(`await page.locator(${quote(selector)}).fill(${quote(String(payload.text || ""))})`)
+      break
+    case "selectOption":
+      if (!selector) return missing("selector")
+      lines.push(`await page.locator(${quote(selector)}).selectOption(${quote(String(payload.value || ""))})`)
+      break
+    case "see": {
+      const text = String(payload.value || "").trim()
+      // The node only edits the expected text; a selector may be left over
+      // from an earlier action type, so it is only used without any text
+      if (text) {
+        lines.push(`await expect(page.getByText(${quote(text)})).toBeVisible()`)
+      } else if (selector) {
+        lines.push(`await expect(page.locator(${quote(selector)})).toBeVisible()`)
+      } else {
+        return missing("expected text")
+      }
+      break
+    }
+    default:
+      warnings.push(`"${label}" in "${flowLabel}" uses unknown action "${payload.actionType}" and was skipped`)
+      return [`// TODO: ${label} (unsupported action "${payload.actionType}")`]
+  }
+  return lines
+}
+
+/**
+ * Builds one Playwright spec per BusinessFlow node. Each chain of CustomerAction
+ * nodes starting from the flow becomes a test, with "see" steps asserted as visible.
+ */
+export function generatePlaywrightSpecs(nodes: Node[], edges: Edge[]): { files: PlaywrightSpecFile[]; warnings: string[] } {
+  const warnings: string[] = []
+  const files: PlaywrightSpecFile[] = []
+  const usedFileNames = new Set<string>()
+
+  const flowNodes = nodes.filter((node) => node.type === "businessFlow")
+  if (flowNodes.length === 0) {
+    warnings.push("The board has no Business Flow nodes")
+  }
+
+  flowNodes.forEach((flowNode) => {
+    const flowLabel = String(flowNode.data?.label || "Business Flow")
+    const chains = getCustomerActionChains(flowNode.id, nodes, edges)
+
+    if (chains.length === 0) {
+      warnings.push(`"${flowLabel}" has no Customer Action nodes connected and was skipped`)
+      return
+    }
+
+    const usedTestNames = new Set<string>()
+    const tests = chains.map((chain) => {
+      const baseName = chains.length > 1 ? `${getActionLabel(chain[0])} to ${getActionLabel(chain[chain.length - 1])}` : flowLabel
+      let testName = baseName
+      for (let suffix = 2; usedTestNames.has(testName); suffix++) {
+        testName = `${baseName} (${suffix})`
+      }
+      usedTestNames.add(testName)
+
+      const steps = chain.flatMap((node) => createStepLines(node, warnings, flowLabel))
+      return [
+        `  test(${quote(testName)}, async ({ page }) => {`,
+        ...steps.map((line) => `    ${line}`),
+        "  })",
+      ].join("\n")
+    })
+
+    const slug = toFileSlug(flowLabel)
+    let fileName = `${slug}.spec.ts`
+    for (let suffix = 2; usedFileNames.has(fileName); suffix++) {
+      fileName = `${slug}-${suffix}.spec.ts`
+    }
+    usedFileNames.add(fileName)
+
+    files.push({
+      flowId: flowNode.id,
+      flowLabel,
+      fileName,
+      content: [
+        `import { ${tests.some((test) => test.includes("await expect(")) ? "test, expect" : "test"} } from "@playwright/test"`,
+        "",
+        `test.describe(${quote(flowLabel)}, () => {`,
+        tests.join("\n\n"),
+        "})",
+        "",
+      ].join("\n"),
+    })
+  })
+
+  return { files, warnings }
+}
@@ -0,0 +1,242 @@
+import { type Edge, type Node } from "reactflow"
+import { getCustomerActionChains, readBoardEndpoint } from "./boardEndpoints"
+
+export type SequenceDiagramFormat = "mermaid" | "plantuml"
+
+type ParticipantKind = "actor" | "api" | "controller" | "service" | "repository" | "gateway"
+
+interface Participant {
+  alias: string
+  label: string
+  kind: ParticipantKind
+}
+
+type SequenceStep =
+  | { kind: "call" | "return"; from: string; to: string; text: string }
+  | { kind: "note"; over: string; text: string }
+  | { kind: "alt" | "else"; text: string }
+  | { kind: "end" }
+
+export interface SequenceDiagram {
+  title: string
+  participants: Participant[]
+  steps: SequenceStep[]
+}
+
+const CUSTOMER_ALIAS = "customer"
+// Customer actions and flows are the entry point, not calls further down
+const ENTRY_TYPES = ["businessFlow", "customerAction"]
+
+// Collapse multi-line text such as SQL queries onto one line
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+// Text sent to a node when it is called
+function describeCall(target: Node, request: string): string {
+  const payload = target.data?.payload || {}
+  switch (target.type) {
+    case "api":
+    case "gateway": {
+      const endpoint = readBoardEndpoint(target)
+      return endpoint ? `${endpoint.method} ${endpoint.url || endpoint.path}` : "request"
+    }
+    case "controller":
+      return request ? `handle ${request}` : "handle request"
+    case "service":
+      return payload.serviceName ? `call ${payload.serviceName}` : "call"
+    case "repository": {
+      const action = String(payload.action || "query")
+      return payload.query ? `${action}: ${singleLine(String(payload.query))}` : action
+    }
+    default:
+      return "call"
+  }
+}
+
+// Text of the reply a node sends back
+function describeReturn(target: Node): string {
+  switch (target.type) {
+    case "api":
+    case "gateway":
+      return readBoardEndpoint(target)?.status || "response"
+    case "repository":
+      return "rows"
+    default:
+      return "result"
+  }
+}
+
+/**
+ * Follows a BusinessFlow node's customer actions and every call below them,
+ * in edge order. Several action paths become alternative blocks.
+ */
+export function buildSequenceDiagram(
+  flowNodeId: string,
+  nodes: Node[],
+  edges: Edge[]
+): { diagram: SequenceDiagram; warnings: string[] } {
+  const warnings: string[] = []
+  const nodesById = new Map(nodes.map((node) => [node.id, node]))
+  const flowNode = nodesById.get(flowNodeId)
+  const participants = new Map<string, Participant>()
+  const steps: SequenceStep[] = []
+  participants.set(CUSTOMER_ALIAS, { alias: CUSTOMER_ALIAS, label: "Customer", kind: "actor" })
+
+  const participantFor = (node: Node): string => {
+    if (!participants.has(node.id)) {
+      participants.set(node.id, {
+        alias: `p${participants.size}`,
+        label: singleLine(String(node.data?.label || node.type)),
+        kind: node.type as ParticipantKind,
+      })
+    }
+    return (participants.get(node.id) as Participant).alias
+  }
+
+  // Emit a call into a node, everything it calls in turn, then its reply
+  const call = (caller: string, target: Node, request: string, stack: string[]) => {
+    if (stack.includes(target.id)) {
+      warnings.push(`"${target.data?.label || target.id}" calls back into itself; the loop was cut`)
+      return
+    }
+    const text = describeCall(target, request)
+    const alias = participantFor(target)
+    steps.push({ kind: "call", from: caller, to: alias, text })
+
+    const nextRequest = target.type === "api" ? text : request
+    edges
+      .filter((edge) => edge.source === target.id)
+      .map((edge) => nodesById.get(edge.target))
+      .filter((next): next is Node => !!next && !ENTRY_TYPES.includes(next.type as string))
+      .forEach((next) => call(alias, next, nextRequest, [...stack, target.id]))
+
+    steps.push({ kind: "return", from: alias, to: caller, text: describeReturn(target) })
+  }
+
+  const chains = flowNode ? getCustomerActionChains(flowNode.id, nodes, edges) : []
+  if (!flowNode) {
+    warnings.push("Select a Business Flow node to export")
+  } else if (chains.length === 0) {
+    warnings.push(`"${flowNode.data?.label || "Business Flow"}" has no Customer Action nodes connected`)
+  }
+
+  chains.forEach((chain, index) => {
+    if (chains.length > 1) {
+      const pathLabel = `${singleLine(String(chain[0].data?.label || ""))} → ${singleLine(String(chain[chain.length - 1].data?.label || ""))}`
+      steps.push({ kind: index === 0 ? "alt" : "else", text: pathLabel })
+    }
+    chain.forEach((action) => {
+      steps.push({ kind: "note", over: CUSTOMER_ALIAS, text: singleLine(String(action.data?.label || "Customer Action")) })
+      edges
+        .filter((edge) => edge.source === action.id)
+        .map((edge) => nodesById.get(edge.target))
+        .filter((next): next is Node => !!next && !ENTRY_TYPES.includes(next.type as string))
+        .forEach((next) => call(CUSTOMER_ALIAS, next, "", []))
+    })
+  })
+  if (chains.length > 1) {
+    steps.push({ kind: "end" })
+  }
+
+  return {
+    diagram: {
+      title: singleLine(String(flowNode?.data?.label || "Business Flow")),
+      participants: Array.from(participants.values()),
+      steps,
+    },
+    warnings,
+  }
+}
+
+// ";" ends a statement and "#" starts an entity code in Mermaid sequence diagrams
+function escapeMermaid(text: string): string {
+  return text.replace(/[#;]/g, (char) => `#${char.charCodeAt(0)};`)
+}
+
+function renderMermaid({ title, participants, steps }: SequenceDiagram): string {
+  const lines = ["sequenceDiagram", `  title ${escapeMermaid(title)}`]
+  participants.forEach((participant) => {
+    const keyword = participant.kind === "actor" ? "actor" : "participant"
+    lines.push(`  ${keyword} ${participant.alias} as ${escapeMermaid(participant.label)}`)
+  })
+
+  let indent = "  "
+  steps.forEach((step) => {
+    switch (step.kind) {
+      case "call":
+        lines.push(`${indent}${step.from}->>+${step.to}: ${escapeMermaid(step.text)}`)
+        break
+      case "return":
+        lines.push(`${indent}${step.from}-->>-${step.to}: ${escapeMermaid(step.text)}`)
+        break
+      case "note":
+        lines.push(`${indent}Note over ${step.over}: ${escapeMermaid(step.text)}`)
+        break
+      case "alt":
+        lines.push(`${indent}alt ${escapeMermaid(step.text)}`)
+        indent = "    "
+        break
+      case "else":
+        lines.push(`  else ${escapeMermaid(step.text)}`)
+        break
+      case "end":
+        indent = "  "
+        lines.push("  end")
+        break
+    }
+  })
+  return lines.join("\n")
+}
+
+const PLANTUML_KEYWORDS: Record<ParticipantKind, string> = {
+  actor: "actor",
+  api: "boundary",
+  controller: "control",
+  service: "participant",
+  repository: "database",
+  gateway: "participant",
+}
+
+function renderPlantUml({ title, participants, steps }: SequenceDiagram): string {
+  const quote = (text: string) => `"${text.replace(/"/g, "'")}"`
+  const lines = ["@startuml", `title ${title}`]
+  participants.forEach((participant) => {
+    const keyword = PLANTUML_KEYWORDS[participant.kind] || "participant"
+    lines.push(
+      `${keyword} ${quote(participant.label)} as ${participant.alias}${participant.kind === "gateway" ? " <<external>>" : ""}`
+    )
+  })
+
+  let indent = ""
+  steps.forEach((step) => {
+    switch (step.kind) {
+      case "call":
+        lines.push(`${indent}${step.from} -> ${step.to} ++ : ${step.text}`)
+        break
+      case "return":
+        lines.push(`${indent}${step.from} --> ${step.to} -- : ${step.text}`)
+        break
+      case "note":
+        lines.push(`${indent}note over ${step.over} : ${step.text}`)
+        break
+      case "alt":
+        lines.push(`alt ${step.text}`)
+        indent = "  "
+        break
+      case "else":
+        lines.push(`else ${step.text}`)
+        break
+      case "end":
+        indent = ""
+        lines.push("end")
+        break
+    }
+  })
+  lines.push("@enduml")
+  return lines.join("\n")
+}
+
+export function renderSequenceDiagram(diagram: SequenceDiagram, format: SequenceDiagramFormat): string {
+  return format === "plantuml" ? renderPlantUml(diagram) : renderMermaid(diagram)
+}
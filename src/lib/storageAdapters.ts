@@ -0,0 +1,190 @@
+// Key-value storage backends used by the flowchart and board persistence layers
+
+export interface StorageAdapter {
+  name: string
+  // Largest value (in bytes) the backend can hold for a single key, if limited
+  maxItemSize?: number
+  isAvailable(): Promise<boolean>
+  getItem(key: string): Promise<string | null>
+  setItem(key: string, value: string): Promise<void>
+  removeItem(key: string): Promise<void>
+  keys(): Promise<string[]>
+}
+
+const INDEXED_DB_NAME = "ad4pt-storage"
+const INDEXED_DB_STORE = "documents"
+const INDEXED_DB_VERSION = 1
+
+// Create an adapter backed by synchronous localStorage
+export function createLocalStorageAdapter(): StorageAdapter {
+  return {
+    name: "localStorage",
+    maxItemSize: 5 * 1024 * 1024, // 5MB limit
+    async isAvailable() {
+      try {
+        const test = "__localStorage_test__"
+        localStorage.setItem(test, test)
+        localStorage.removeItem(test)
+        return true
+      } catch {
+        return false
+      }
+    },
+    async getItem(key) {
+      return localStorage.getItem(key)
+    },
+    async setItem(key, value) {
+      localStorage.setItem(key, value)
+    },
+    async removeItem(key) {
+      localStorage.removeItem(key)
+    },
+    async keys() {
+      return Object.keys(localStorage)
+    },
+  }
+}
+
+// Wrap an IDBRequest in a promise
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Create an adapter backed by an IndexedDB object store
+export function createIndexedDBAdapter(
+  databaseName: string = INDEXED_DB_NAME,
+  storeName: string = INDEXED_DB_STORE
+): StorageAdapter {
+  let databasePromise: Promise<IDBDatabase> | null = null
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, INDEXED_DB_VERSION)
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName)
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          databasePromise = null
+          reject(request.error)
+        }
+        request.onblocked = () => {
+          databasePromise = null
+          reject(new Error("IndexedDB upgrade is blocked by another open tab"))
+        }
+      })
+    }
+    return databasePromise
+  }
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const database = await openDatabase()
+    const transaction = database.transaction(storeName, mode)
+    const request = requestToPromise(operation(transaction.objectStore(storeName)))
+    if (mode === "readonly") {
+      return request
+    }
+
+    // Resolve writes only once they are committed
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+    const [result] = await Promise.all([request, committed])
+    return result
+  }
+
+  return {
+    name: "IndexedDB",
+    async isAvailable() {
+      if (typeof indexedDB === "undefined") {
+        return false
+      }
+      try {
+        await openDatabase()
+        return true
+      } catch {
+        return false
+      }
+    },
+    async getItem(key) {
+      const value = await withStore("readonly", (store) => store.get(key))
+      return typeof value === "string" ? value : null
+    },
+    async setItem(key, value) {
+      await withStore("readwrite", (store) => store.put(value, key))
+    },
+    async removeItem(key) {
+      await withStore("readwrite", (store) => store.delete(key))
+    },
+    async keys() {
+      const keys = await withStore("readonly", (store) => store.getAllKeys())
+      return keys.map(String)
+    },
+  }
+}
+
+let defaultAdapterPromise: Promise<StorageAdapter | null> | null = null
+
+// Resolve the preferred backend: IndexedDB, falling back to localStorage
+export function getDefaultStorageAdapter(): Promise<StorageAdapter | null> {
+  if (!defaultAdapterPromise) {
+    defaultAdapterPromise = (async () => {
+      const candidates = [createIndexedDBAdapter(), createLocalStorageAdapter()]
+      for (const adapter of candidates) {
+        if (await adapter.isAvailable()) {
+          return adapter
+        }
+      }
+      return null
+    })()
+  }
+  return defaultAdapterPromise
+}
+
+// Move matching localStorage entries into another adapter. When the target
+// already holds a key, mergeEntry combines both values; without it, or when it
+// returns null, the target value is kept and the localStorage copy is left in
+// place so nothing is lost.
+export async function migrateLocalStorageEntries(
+  target: StorageAdapter,
+  shouldMigrate: (key: string) => boolean,
+  mergeEntry?: (key: string, targetValue: string, sourceValue: string) => string | null
+): Promise<number> {
+  if (target.name === "localStorage") {
+    return 0
+  }
+
+  const source = createLocalStorageAdapter()
+  if (!(await source.isAvailable())) {
+    return 0
+  }
+
+  let migratedCount = 0
+  for (const key of (await source.keys()).filter(shouldMigrate)) {
+    const value = await source.getItem(key)
+    if (value === null) {
+      continue
+    }
+
+    const existing = await target.getItem(key)
+    const merged = existing === null ? value : mergeEntry?.(key, existing, value) ?? null
+    if (merged === null) {
+      continue
+    }
+    await target.setItem(key, merged)
+    await source.removeItem(key)
+    migratedCount++
+  }
+  return migratedCount
+}